@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Routes, Route } from 'react-router-dom';
 import { Settings, MapPin, AlertCircle, Github, User } from 'lucide-react';
 import { Button } from './components/ui/button';
 import { Alert, AlertDescription } from './components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select';
 import { UserDashboard } from './components/dashboard/UserDashboard';
 import { SuccessPage } from './components/SuccessPage';
 import { GPXUploader } from './components/GPXUploader';
@@ -10,20 +11,79 @@ import { SettingsPanel } from './components/SettingsPanel';
 import { ProcessingProgress } from './components/ProcessingProgress';
 import { ImageViewer } from './components/ImageViewer';
 import { ExportDialog } from './components/ExportDialog';
+import { OverlapNotice } from './components/OverlapNotice';
+import { CoverageNotice } from './components/CoverageNotice';
+import { RouteRangeControl } from './components/RouteRangeControl';
 import { useUser } from './lib/supabase';
 import { useLocalStorage } from './hooks/useLocalStorage';
 import { useStreetViewProcessor } from './hooks/useStreetViewProcessor';
+import type { ImageryCheck } from './hooks/useStreetViewProcessor';
 import { UserService } from './lib/user-service';
-import { GPXData, AppSettings } from './types';
+import { getGPXSources, getSourceSegments } from './lib/gpx-parser';
+import { getFormatLabel } from './lib/importers';
+import { getImageryCredential, getImageryProvider, hasImageryCredential } from './lib/imagery';
+import { validateGPXData, repairGPXData } from './lib/gpx-validation';
+import { mergeRouteFiles } from './lib/route-merge';
+import { applyRouteEdit, clampRange, getRouteLength, MIN_RANGE_LENGTH } from './lib/route-edit';
+import { calculateRouteStats, formatSpeed } from './lib/route-stats';
+import { formatDistance, formatDuration } from './lib/utils';
+import { isTimeBasedSampling } from './lib/street-view-api';
+import type { RouteFile } from './lib/route-merge';
+import { GPXData, GPXSource, AppSettings, RouteFileFormat, GPXIssue, GPXIssueType, RouteMergeMode, SamplingOptions, Climb, DenseStretch, OverlapDirection, RouteEdit, RangeEnd } from './types';
+
+interface PendingImport {
+  data: GPXData;
+  fileName: string;
+  format: RouteFileFormat | null; // null when merged from files of different formats
+  issues: GPXIssue[];
+}
+
+// Climbs sampled densely get frames this many times closer together, but no closer than the minimum
+const DENSE_INTERVAL_DIVISOR = 5;
+const MIN_DENSE_INTERVAL = 5; // meters
+
+const wholeRoute: RouteEdit = { reversed: false, range: null };
 
 const defaultSettings: AppSettings = {
   intervalDistance: 50,
+  samplingMode: 'interval',
+  creditBudget: 500,
+  timeInterval: 30,
+  minStopDuration: 30,
+  headingLookAhead: 25,
+  simplifyTolerance: 5,
+  simplifyMethod: 'rdp',
+  distanceFormula: 'haversine',
   imageSize: '640x640',
   fov: 90,
   pitch: 0,
-  apiKey: ''
+  searchRadius: 50,
+  panoramaSource: 'outdoor',
+  imageryProvider: 'google',
+  apiKey: '',
+  mapillaryToken: ''
 };
 
+/**
+ * Stored settings are not validated, so numbers the sampling loops and panorama search cannot
+ * work with (zero, negative or not numbers at all) are raised to a minimum or reset
+ */
+function clampSettings(settings: AppSettings): AppSettings {
+  const atLeast = (value: number, min: number, fallback: number) =>
+    Number.isFinite(value) ? Math.max(min, value) : fallback;
+
+  return {
+    ...settings,
+    intervalDistance: atLeast(settings.intervalDistance, 5, defaultSettings.intervalDistance), // meters
+    creditBudget: atLeast(settings.creditBudget, 2, defaultSettings.creditBudget),
+    timeInterval: atLeast(settings.timeInterval, 1, defaultSettings.timeInterval), // seconds
+    minStopDuration: atLeast(settings.minStopDuration, 1, defaultSettings.minStopDuration), // seconds
+    headingLookAhead: atLeast(settings.headingLookAhead, 0, defaultSettings.headingLookAhead), // meters
+    simplifyTolerance: atLeast(settings.simplifyTolerance, 0, defaultSettings.simplifyTolerance), // meters
+    searchRadius: atLeast(settings.searchRadius, 1, defaultSettings.searchRadius) // meters
+  };
+}
+
 function App() {
   return (
     <Routes>
@@ -35,32 +95,152 @@ function App() {
 
 function MainApp() {
   const { user } = useUser();
-  const [settings, setSettings] = useLocalStorage<AppSettings>('gpx-street-view-settings', defaultSettings);
+  const [storedSettings, setSettings] = useLocalStorage<AppSettings>('gpx-street-view-settings', defaultSettings);
+  // Settings saved by older versions may be missing newer fields
+  const settings = clampSettings({ ...defaultSettings, ...storedSettings });
   const [showSettings, setShowSettings] = useState(false);
   const [showDashboard, setShowDashboard] = useState(false);
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [currentGPXData, setCurrentGPXData] = useState<GPXData | null>(null);
   const [currentFileName, setCurrentFileName] = useState<string>('');
+  const [currentSource, setCurrentSource] = useState<GPXSource | null>(null);
+  const [currentFormat, setCurrentFormat] = useState<RouteFileFormat | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [denseStretches, setDenseStretches] = useState<DenseStretch[]>([]);
+  const [reuseOverlaps, setReuseOverlaps] = useState<OverlapDirection[]>([]);
+  const [routeEdit, setRouteEdit] = useState<RouteEdit>(wholeRoute);
+  const [rangePick, setRangePick] = useState<RangeEnd | null>(null);
+  const imageryProvider = getImageryProvider(settings.imageryProvider);
+  const imageryKey = getImageryCredential(settings, imageryProvider);
+  const canLoadImagery = hasImageryCredential(settings, imageryProvider);
+  const imageryCheck: ImageryCheck = {
+    provider: imageryProvider,
+    options: { apiKey: imageryKey, search: { radius: settings.searchRadius, source: settings.panoramaSource } }
+  };
+  const samplingOptions: SamplingOptions = {
+    mode: settings.samplingMode,
+    intervalDistance: settings.intervalDistance,
+    creditBudget: settings.creditBudget,
+    timeInterval: settings.timeInterval,
+    minStopDuration: settings.minStopDuration,
+    headingLookAhead: settings.headingLookAhead,
+    simplifyTolerance: settings.simplifyTolerance,
+    simplifyMethod: settings.simplifyMethod,
+    denseStretches,
+    reuseOverlaps
+  };
 
   const {
     images,
+    cues,
+    elevationStats,
+    climbs,
+    simplification,
     progress,
     isProcessing,
     error,
+    importFile,
     processGPXData,
+    checkCoverage,
+    setHeadingOverride,
+    cancel,
     reset
   } = useStreetViewProcessor();
 
-  const handleGPXLoaded = async (gpxData: GPXData, fileName: string) => {
+  // Placeholders are generated for the selected track or route after reversing and trimming it,
+  // and their coverage is checked straight away when there is an API key
+  const processRoute = async (gpxData: GPXData, source: GPXSource, edit: RouteEdit, sampling: SamplingOptions) => {
+    if (edit.reversed && isTimeBasedSampling(sampling.mode)) {
+      setEditError('Reversed routes have no timestamps, so they cannot use time-based sampling. Choose another sampling mode or undo the reverse.');
+      return;
+    }
+
+    let edited: GPXData;
+    try {
+      edited = applyRouteEdit(gpxData, source, edit);
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to edit the route');
+      return;
+    }
+    setEditError(null);
+    await processGPXData(edited, sampling, source, canLoadImagery ? imageryCheck : undefined);
+  };
+
+  const handleFilesSelected = async (files: File[], mode: RouteMergeMode) => {
+    setPendingImport(null);
+    setImportError(null);
+
+    const routeFiles: RouteFile[] = [];
+    const formats = new Set<RouteFileFormat>();
+    for (const file of files) {
+      const result = await importFile(file);
+      if (!result) return;
+
+      routeFiles.push({ data: result.data, fileName: file.name });
+      formats.add(result.format);
+    }
+
+    let data: GPXData;
+    try {
+      data = routeFiles.length === 1 ? routeFiles[0].data : mergeRouteFiles(routeFiles, mode);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to merge route files');
+      return;
+    }
+
+    const fileName = routeFiles.length === 1 ? files[0].name : data.metadata?.name || 'merged-route';
+    const format = formats.size === 1 ? Array.from(formats)[0] : null;
+
+    // Let the user review and fix suspicious points before processing
+    const issues = validateGPXData(data);
+    if (issues.length > 0) {
+      setPendingImport({ data, fileName, format, issues });
+      return;
+    }
+
+    await handleGPXLoaded(data, fileName, format);
+  };
+
+  const handleApplyFixes = async (issueTypes: GPXIssueType[]) => {
+    if (!pendingImport) return;
+
+    try {
+      const repaired = repairGPXData(pendingImport.data, issueTypes);
+      setPendingImport(null);
+      await handleGPXLoaded(repaired, pendingImport.fileName, pendingImport.format);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to repair file');
+    }
+  };
+
+  const handleIgnoreIssues = async () => {
+    if (!pendingImport) return;
+
+    setPendingImport(null);
+    await handleGPXLoaded(pendingImport.data, pendingImport.fileName, pendingImport.format);
+  };
+
+  const handleGPXLoaded = async (gpxData: GPXData, fileName: string, format: RouteFileFormat | null) => {
+    const source = getGPXSources(gpxData)[0];
     setCurrentGPXData(gpxData);
     setCurrentFileName(fileName);
+    setCurrentFormat(format);
+    setCurrentSource(source);
+    setDenseStretches([]);
+    setReuseOverlaps([]);
+    setRouteEdit(wholeRoute);
+    setRangePick(null);
     
     // Save GPX file to database if user is authenticated
-    if (user && gpxData.tracks.length > 0) {
+    if (user && source) {
       try {
-        const track = gpxData.tracks[0];
-        const totalDistance = calculateTotalDistance(track.points);
+        const track = source.type === 'track'
+          ? gpxData.tracks[source.index]
+          : gpxData.routes[source.index];
+        const stats = calculateRouteStats(getSourceSegments(gpxData, source), settings.distanceFormula);
         
         await UserService.saveGPXFile(
           user.id,
@@ -69,8 +249,7 @@ function MainApp() {
           0, // file size - we don't have this from the parsed data
           '', // storage path - not using file storage for now
           gpxData.metadata?.name || track.name,
-          totalDistance,
-          track.points.length
+          stats
         );
       } catch (error) {
         console.error('Failed to save GPX file:', error);
@@ -78,20 +257,68 @@ function MainApp() {
     }
     
     // Process GPX data immediately (no API key needed for placeholders)
-    await processGPXData(gpxData, settings.intervalDistance);
+    await processRoute(gpxData, source, wholeRoute, { ...samplingOptions, denseStretches: [], reuseOverlaps: [] });
   };
-  
-  const calculateTotalDistance = (points: any[]) => {
-    let total = 0;
-    for (let i = 1; i < points.length; i++) {
-      const prev = points[i - 1];
-      const curr = points[i];
-      // Simple distance calculation - you might want to use the haversine formula
-      const dx = curr.lat - prev.lat;
-      const dy = curr.lon - prev.lon;
-      total += Math.sqrt(dx * dx + dy * dy) * 111000; // rough conversion to meters
-    }
-    return total;
+
+  const handleSourceChange = async (value: string) => {
+    if (!currentGPXData) return;
+    
+    const [type, index] = value.split(':');
+    const source: GPXSource = { type: type as GPXSource['type'], index: parseInt(index) };
+    setCurrentSource(source);
+    setDenseStretches([]);
+    setReuseOverlaps([]);
+    setRouteEdit(wholeRoute);
+    setRangePick(null);
+    await processRoute(currentGPXData, source, wholeRoute, { ...samplingOptions, denseStretches: [], reuseOverlaps: [] });
+  };
+
+  // Reverse or trim the route, then regenerate placeholders for the part that is left.
+  // Climbs and overlaps are measured along the processed route, so their options start over.
+  const handleRouteEditChange = async (edit: RouteEdit) => {
+    if (!currentGPXData || !currentSource) return;
+
+    setRouteEdit(edit);
+    setRangePick(null);
+    setDenseStretches([]);
+    setReuseOverlaps([]);
+    await processRoute(currentGPXData, currentSource, edit, { ...samplingOptions, denseStretches: [], reuseOverlaps: [] });
+  };
+
+  // A start or finish picked on the elevation profile or the map, measured along the processed route
+  const handlePickDistance = async (distance: number) => {
+    if (!rangePick) return;
+
+    const current = routeEdit.range ?? { start: 0, end: routeLength };
+    const picked = current.start + distance;
+    const range = rangePick === 'start' ? { start: picked, end: current.end } : { start: current.start, end: picked };
+    if (range.end - range.start < MIN_RANGE_LENGTH) return;
+
+    await handleRouteEditChange({ ...routeEdit, range: clampRange(range, routeLength) });
+  };
+
+  // Regenerate placeholders with extra frames along a climb
+  const handleSampleClimbDensely = async (climb: Climb) => {
+    if (!currentGPXData || !currentSource) return;
+
+    const stretches = [...denseStretches, {
+      startDistance: climb.startDistance,
+      endDistance: climb.endDistance,
+      intervalDistance: Math.max(MIN_DENSE_INTERVAL, settings.intervalDistance / DENSE_INTERVAL_DIVISOR)
+    }];
+    setDenseStretches(stretches);
+    await processRoute(currentGPXData, currentSource, routeEdit, { ...samplingOptions, denseStretches: stretches });
+  };
+
+  // Regenerate placeholders, reusing (or no longer reusing) earlier frames where the route overlaps itself
+  const handleToggleReuse = async (direction: OverlapDirection) => {
+    if (!currentGPXData || !currentSource) return;
+
+    const directions = reuseOverlaps.includes(direction)
+      ? reuseOverlaps.filter(other => other !== direction)
+      : [...reuseOverlaps, direction];
+    setReuseOverlaps(directions);
+    await processRoute(currentGPXData, currentSource, routeEdit, { ...samplingOptions, reuseOverlaps: directions });
   };
 
   const handleSettingsChange = async (newSettings: AppSettings) => {
@@ -102,8 +329,35 @@ function MainApp() {
     reset();
     setCurrentGPXData(null);
     setCurrentFileName('');
+    setCurrentSource(null);
+    setCurrentFormat(null);
+    setPendingImport(null);
+    setImportError(null);
+    setEditError(null);
+    setDenseStretches([]);
+    setReuseOverlaps([]);
+    setRouteEdit(wholeRoute);
+    setRangePick(null);
   };
 
+  const gpxSources = currentGPXData ? getGPXSources(currentGPXData) : [];
+
+  const routeLength = useMemo(
+    () => currentGPXData && currentSource ? getRouteLength(getSourceSegments(currentGPXData, currentSource)) : 0,
+    [currentGPXData, currentSource]
+  );
+
+  // Statistics for the part of the route being explored
+  const routeStats = useMemo(() => {
+    if (!currentGPXData || !currentSource) return null;
+    try {
+      const edited = applyRouteEdit(currentGPXData, currentSource, routeEdit);
+      return calculateRouteStats(getSourceSegments(edited, currentSource), settings.distanceFormula);
+    } catch {
+      return null;
+    }
+  }, [currentGPXData, currentSource, routeEdit, settings.distanceFormula]);
+
   const getRouteDisplayName = () => {
     if (currentGPXData?.metadata?.name) {
       return currentGPXData.metadata.name;
@@ -166,11 +420,11 @@ function MainApp() {
       <main className="container mx-auto px-4 py-8">
         <div className="space-y-8">
           {/* API Key Warning */}
-          {!settings.apiKey && (
+          {imageryProvider.credential && !canLoadImagery && (
             <Alert>
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                A Google API key is required to load Street View images.{' '}
+                A {imageryProvider.credential.label} is required to load {imageryProvider.label} images.{' '}
                 <Button
                   variant="link"
                   className="p-0 h-auto text-primary"
@@ -183,47 +437,124 @@ function MainApp() {
           )}
 
           {/* Error Display */}
-          {error && (
+          {(error || importError || editError) && (
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
-              <AlertDescription>{error}</AlertDescription>
+              <AlertDescription>{error || importError || editError}</AlertDescription>
             </Alert>
           )}
 
           {/* Content based on current state */}
           {!currentGPXData && !isProcessing && (
-            <GPXUploader onGPXLoaded={handleGPXLoaded} />
+            <GPXUploader
+              onFilesSelected={handleFilesSelected}
+              validationIssues={pendingImport?.issues}
+              onApplyFixes={handleApplyFixes}
+              onIgnoreIssues={handleIgnoreIssues}
+            />
           )}
 
           {progress && (
-            <ProcessingProgress progress={progress} />
+            <ProcessingProgress progress={progress} onCancel={cancel} />
           )}
 
-          {images.length > 0 && !isProcessing && (
+          {/* The route controls stay available when processing fails, so an edit can be undone */}
+          {currentGPXData && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <div>
                   <h2 className="text-2xl font-bold">Street View Images</h2>
                   <p className="text-muted-foreground">
-                    Route: {getRouteDisplayName()} • {images.length} images generated
+                    Route: {getRouteDisplayName()}
+                    {currentFormat && ` (${getFormatLabel(currentFormat)})`}
+                    {images.length > 0 && ` • ${images.length} images generated`}
                   </p>
+                  {routeStats && (
+                    <p className="text-sm text-muted-foreground">
+                      {formatDistance(routeStats.distance)}
+                      {routeStats.ascent !== null && ` • ${Math.round(routeStats.ascent)}m ascent`}
+                      {routeStats.movingTime !== null && ` • ${formatDuration(routeStats.movingTime)} moving`}
+                      {routeStats.averageSpeed !== null && ` • ${formatSpeed(routeStats.averageSpeed)} average`}
+                    </p>
+                  )}
+                  {simplification && simplification.pointCount < simplification.originalPointCount && (
+                    <p className="text-xs text-muted-foreground">
+                      Simplified from {simplification.originalPointCount.toLocaleString()} to{' '}
+                      {simplification.pointCount.toLocaleString()} points
+                      (max deviation {simplification.maxDeviation.toFixed(1)}m)
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {gpxSources.length > 1 && currentSource && (
+                    <Select
+                      value={`${currentSource.type}:${currentSource.index}`}
+                      onValueChange={handleSourceChange}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {gpxSources.map(source => (
+                          <SelectItem key={`${source.type}:${source.index}`} value={`${source.type}:${source.index}`}>
+                            {source.type === 'track' ? 'Track' : 'Route'}: {source.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button onClick={handleNewUpload} variant="outline">
+                    Upload New Route
+                  </Button>
                 </div>
-                <Button onClick={handleNewUpload} variant="outline">
-                  Upload New GPX
-                </Button>
               </div>
               
-              <ImageViewer
-                images={images}
-                onExport={() => setShowExportDialog(true)}
-                isExporting={isExporting}
-                apiKey={settings.apiKey}
-                settings={{
-                  imageSize: settings.imageSize,
-                  fov: settings.fov,
-                  pitch: settings.pitch
-                }}
+              <RouteRangeControl
+                edit={routeEdit}
+                routeLength={routeLength}
+                picking={rangePick}
+                canReverse={!isTimeBasedSampling(settings.samplingMode)}
+                onPickingChange={setRangePick}
+                onChange={handleRouteEditChange}
               />
+
+              {images.length > 0 && !isProcessing && (
+                <>
+                  <CoverageNotice
+                    images={images}
+                    onCheckCoverage={canLoadImagery ? () => checkCoverage(imageryCheck) : undefined}
+                  />
+
+                  <OverlapNotice
+                    images={images}
+                    reuseOverlaps={reuseOverlaps}
+                    canAim={imageryProvider.canAim}
+                    onToggleReuse={handleToggleReuse}
+                  />
+
+                  <ImageViewer
+                    images={images}
+                    cues={cues}
+                    elevationStats={elevationStats}
+                    climbs={climbs}
+                    routeLine={simplification}
+                    onSampleClimbDensely={handleSampleClimbDensely}
+                    onPickDistance={rangePick ? handlePickDistance : undefined}
+                    onExport={() => setShowExportDialog(true)}
+                    isExporting={isExporting}
+                    provider={imageryProvider}
+                    apiKey={imageryKey}
+                    onHeadingOverride={setHeadingOverride}
+                    settings={{
+                      imageSize: settings.imageSize,
+                      fov: settings.fov,
+                      pitch: settings.pitch,
+                      searchRadius: settings.searchRadius,
+                      panoramaSource: settings.panoramaSource
+                    }}
+                  />
+                </>
+              )}
             </div>
           )}
         </div>
@@ -269,6 +600,8 @@ function MainApp() {
       {showExportDialog && (
         <ExportDialog
           images={images}
+          cues={cues}
+          routeStats={routeStats}
           routeName={getRouteDisplayName()}
           onClose={() => setShowExportDialog(false)}
           isExporting={isExporting}
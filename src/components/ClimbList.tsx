@@ -0,0 +1,65 @@
+import { Mountain, ScanLine } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import type { Climb } from '../types';
+import { formatClimbCategory, getGradientColor } from '../lib/climbs';
+import { formatDistance } from '../lib/utils';
+
+interface ClimbListProps {
+  climbs: Climb[];
+  onClimbSelect: (climb: Climb) => void;
+  onSampleDensely?: (climb: Climb) => void;
+}
+
+export function ClimbList({ climbs, onClimbSelect, onSampleDensely }: ClimbListProps) {
+  if (climbs.length === 0) return null;
+
+  return (
+    <Card className="flex flex-col max-h-[60vh]">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Mountain className="h-5 w-5" />
+          Climbs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-2 overflow-y-auto">
+        <ul className="space-y-2">
+          {climbs.map((climb, index) => (
+            <li key={index} className="rounded-md border p-2 text-sm space-y-1">
+              <button
+                type="button"
+                onClick={() => onClimbSelect(climb)}
+                className="w-full flex items-center justify-between gap-2 text-left hover:underline"
+              >
+                <span className="flex items-center gap-2">
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: getGradientColor(climb.averageGradient) }}
+                  />
+                  {formatDistance(climb.startDistance)} – {formatDistance(climb.endDistance)}
+                </span>
+                <Badge variant="secondary">{formatClimbCategory(climb.category)}</Badge>
+              </button>
+              <div className="text-xs text-muted-foreground">
+                {formatDistance(climb.length)} at {climb.averageGradient.toFixed(1)}%
+                {' '}(max {climb.maxGradient.toFixed(1)}%) • +{Math.round(climb.elevationGain)}m
+              </div>
+              {onSampleDensely && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full h-7 text-xs"
+                  onClick={() => onSampleDensely(climb)}
+                >
+                  <ScanLine className="h-3 w-3 mr-1" />
+                  Sample this climb densely
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
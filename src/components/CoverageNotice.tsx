@@ -0,0 +1,68 @@
+import { useMemo } from 'react';
+import { ScanSearch } from 'lucide-react';
+import { Alert, AlertDescription } from './ui/alert';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import { StreetViewImage } from '../types';
+import { COVERAGE_COLORS, COVERAGE_LABELS, summarizeCoverage } from '../lib/coverage';
+import type { CoverageStatus } from '../lib/coverage';
+
+interface CoverageNoticeProps {
+  images: StreetViewImage[];
+  onCheckCoverage?: () => void; // offered while the frames have not been checked
+}
+
+export function CoverageNotice({ images, onCheckCoverage }: CoverageNoticeProps) {
+  const summary = useMemo(() => summarizeCoverage(images), [images]);
+
+  if (summary.percentage === null) {
+    if (!onCheckCoverage) return null;
+
+    return (
+      <Alert>
+        <ScanSearch className="h-4 w-4" />
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+          <span>Street View coverage has not been checked, so points without imagery will still use image credits.</span>
+          <Button variant="outline" size="sm" onClick={onCheckCoverage}>
+            Check coverage
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const missing = summary.checked - summary.covered;
+  // Frames whose metadata request failed stay unchecked
+  const statuses: CoverageStatus[] = summary.checked < images.length
+    ? ['covered', 'missing', 'unchecked']
+    : ['covered', 'missing'];
+
+  return (
+    <Alert>
+      <ScanSearch className="h-4 w-4" />
+      <AlertDescription className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span>
+            Street View coverage: <span className="font-medium">{Math.round(summary.percentage)}%</span>
+            {' '}({summary.covered} of {summary.checked} points)
+            {summary.oldestDate && summary.newestDate && (
+              summary.oldestDate === summary.newestDate
+                ? ` • captured ${summary.newestDate}`
+                : ` • captured ${summary.oldestDate} to ${summary.newestDate}`
+            )}
+            {missing > 0 && ` • ${missing} ${missing === 1 ? 'point' : 'points'} without imagery will be skipped`}
+          </span>
+          <span className="flex items-center gap-3 text-xs text-muted-foreground">
+            {statuses.map(status => (
+              <span key={status} className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: COVERAGE_COLORS[status] }} />
+                {COVERAGE_LABELS[status]}
+              </span>
+            ))}
+          </span>
+        </div>
+        <Progress value={summary.percentage} className="h-2" />
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,74 @@
+import {
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerUpLeft,
+  CornerUpRight,
+  CornerDownLeft,
+  CornerDownRight,
+  Undo2,
+  RotateCcw,
+  ListOrdered
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import type { Cue, TurnDirection } from '../types';
+import { formatCue } from '../lib/cue-sheet';
+import { formatDistance } from '../lib/utils';
+
+interface CueSheetProps {
+  cues: Cue[];
+  currentIndex: number;
+  onCueSelect: (frameIndex: number) => void;
+}
+
+const TURN_ICONS: Record<TurnDirection, LucideIcon> = {
+  'slight-left': ArrowUpLeft,
+  'left': CornerUpLeft,
+  'sharp-left': CornerDownLeft,
+  'slight-right': ArrowUpRight,
+  'right': CornerUpRight,
+  'sharp-right': CornerDownRight,
+  'u-turn': Undo2,
+  'roundabout': RotateCcw
+};
+
+export function CueSheet({ cues, currentIndex, onCueSelect }: CueSheetProps) {
+  return (
+    <Card className="flex flex-col max-h-[80vh]">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ListOrdered className="h-5 w-5" />
+          Cue Sheet
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-2 overflow-y-auto">
+        {cues.length === 0 ? (
+          <p className="p-2 text-sm text-muted-foreground">No turns detected on this route</p>
+        ) : (
+          <ul className="space-y-1">
+            {cues.map((cue, index) => {
+              const Icon = TURN_ICONS[cue.direction];
+              const isCurrent = cue.frameIndex === currentIndex;
+
+              return (
+                <li key={index}>
+                  <button
+                    type="button"
+                    onClick={() => onCueSelect(cue.frameIndex)}
+                    className={`w-full flex items-center gap-3 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-muted ${
+                      isCurrent ? 'bg-muted' : ''
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 shrink-0 text-primary" />
+                    <span className="flex-1">{formatCue(cue)}</span>
+                    <span className="text-xs text-muted-foreground">{formatDistance(cue.distance)}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { Mountain, TrendingUp, TrendingDown } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import type { ElevationStats, StreetViewImage } from '../types';
+import { formatDistance } from '../lib/utils';
+import { findNearestImage } from '../lib/street-view-api';
+
+interface ElevationProfileProps {
+  images: StreetViewImage[];
+  stats: ElevationStats | null;
+  currentIndex: number;
+  onSeek: (index: number) => void;
+  onPick?: (distance: number) => void; // called instead of seeking while picking a distance
+}
+
+// SVG coordinate space; the chart is stretched to the card width
+const CHART_WIDTH = 1000;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+
+export function ElevationProfile({ images, stats, currentIndex, onSeek, onPick }: ElevationProfileProps) {
+  const chart = useMemo(() => {
+    const points = images
+      .map((image, index) => ({ index, distance: image.distance, ele: image.elevation }))
+      .filter((point): point is { index: number; distance: number; ele: number } => point.ele !== undefined);
+
+    if (points.length < 2) return null;
+
+    const totalDistance = images[images.length - 1].distance || 1;
+    const minEle = points.reduce((min, point) => Math.min(min, point.ele), Infinity);
+    const maxEle = points.reduce((max, point) => Math.max(max, point.ele), -Infinity);
+    const eleRange = Math.max(maxEle - minEle, 10); // Keep flat routes from looking mountainous
+
+    const toX = (distance: number) => (distance / totalDistance) * CHART_WIDTH;
+    const toY = (ele: number) =>
+      CHART_HEIGHT - CHART_PADDING - ((ele - minEle) / eleRange) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+    const line = points.map(point => `${toX(point.distance).toFixed(1)},${toY(point.ele).toFixed(1)}`).join(' ');
+    const area = `${toX(points[0].distance)},${CHART_HEIGHT} ${line} ${toX(points[points.length - 1].distance)},${CHART_HEIGHT}`;
+
+    return { line, area, toX, toY, minEle, maxEle, totalDistance };
+  }, [images]);
+
+  if (!chart) return null;
+
+  const currentImage = images[currentIndex];
+  const cursorX = currentImage ? chart.toX(currentImage.distance) : 0;
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const distance = ((e.clientX - rect.left) / rect.width) * chart.totalDistance;
+    if (onPick) {
+      onPick(distance);
+    } else {
+      onSeek(findNearestImage(images, distance));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Mountain className="h-5 w-5" />
+            Elevation Profile
+          </CardTitle>
+          {stats && (
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <TrendingUp className="h-4 w-4" />
+                {Math.round(stats.ascent)}m
+              </span>
+              <span className="flex items-center gap-1">
+                <TrendingDown className="h-4 w-4" />
+                {Math.round(stats.descent)}m
+              </span>
+              <span>Max gradient {stats.maxGradient.toFixed(1)}%</span>
+              <span>
+                {Math.round(stats.minElevation)}–{Math.round(stats.maxElevation)}m
+              </span>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="relative">
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-40 cursor-crosshair"
+            onClick={handleClick}
+          >
+            <polygon points={chart.area} className="fill-primary/20" />
+            <polyline
+              points={chart.line}
+              fill="none"
+              className="stroke-primary"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+            <line
+              x1={cursorX}
+              x2={cursorX}
+              y1={0}
+              y2={CHART_HEIGHT}
+              className="stroke-foreground"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          <div className="absolute top-0 left-1 text-xs text-muted-foreground pointer-events-none">
+            {Math.round(chart.maxEle)}m
+          </div>
+          <div className="absolute bottom-0 left-1 text-xs text-muted-foreground pointer-events-none">
+            {Math.round(chart.minEle)}m
+          </div>
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground mt-1">
+          <span>0</span>
+          <span>
+            {currentImage?.elevation !== undefined &&
+              `${Math.round(currentImage.elevation)}m at ${formatDistance(currentImage.distance)}`}
+          </span>
+          <span>{formatDistance(chart.totalDistance)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,11 +5,13 @@ import { Button } from './ui/button';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Alert, AlertDescription } from './ui/alert';
-import { StreetViewImage, ExportOptions } from '../types';
+import { StreetViewImage, ExportOptions, Cue, RouteStats } from '../types';
 import { exportImagesAsZip, exportIndividualImages, estimateExportSize, formatFileSize } from '../lib/export-utils';
 
 interface ExportDialogProps {
   images: StreetViewImage[];
+  cues?: Cue[];
+  routeStats?: RouteStats | null;
   routeName: string;
   onClose: () => void;
   isExporting: boolean;
@@ -19,6 +21,8 @@ interface ExportDialogProps {
 
 export function ExportDialog({ 
   images, 
+  cues = [],
+  routeStats = null,
   routeName, 
   onClose, 
   isExporting, 
@@ -41,9 +45,10 @@ export function ExportDialog({
 
     try {
       if (exportOptions.format === 'zip') {
-        await exportImagesAsZip(validImages, exportOptions, routeName);
+        // The full list keeps file numbers in line with the frame numbers of the cue sheet
+        await exportImagesAsZip(images, exportOptions, routeName, cues, routeStats);
       } else {
-        await exportIndividualImages(validImages, routeName);
+        await exportIndividualImages(images, routeName);
       }
     } catch (error) {
       console.error('Export failed:', error);
@@ -139,6 +144,12 @@ export function ExportDialog({
             </div>
           )}
 
+          {exportOptions.format === 'zip' && cues.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              The archive includes a cue sheet with {cues.length} {cues.length === 1 ? 'turn' : 'turns'} (CSV and printable text).
+            </p>
+          )}
+
           {/* Warnings */}
           {validImages.length === 0 && (
             <Alert variant="destructive">
@@ -1,39 +1,72 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, FileText, AlertCircle } from 'lucide-react';
+import { Upload, FileText, AlertCircle, ArrowUp, ArrowDown, X } from 'lucide-react';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Alert, AlertDescription } from './ui/alert';
-import { parseGPXFile, validateGPXFile } from '../lib/gpx-parser';
-import { GPXData } from '../types';
+import { ValidationReport } from './ValidationReport';
+import { validateRouteFile, getSupportedExtensions } from '../lib/importers';
+import { GPXIssue, GPXIssueType, RouteMergeMode } from '../types';
 
 interface GPXUploaderProps {
-  onGPXLoaded: (data: GPXData, fileName: string) => void;
+  onFilesSelected: (files: File[], mode: RouteMergeMode) => void;
   isLoading?: boolean;
+  validationIssues?: GPXIssue[];
+  onApplyFixes?: (issueTypes: GPXIssueType[]) => void;
+  onIgnoreIssues?: () => void;
 }
 
-export function GPXUploader({ onGPXLoaded, isLoading = false }: GPXUploaderProps) {
+export function GPXUploader({
+  onFilesSelected,
+  isLoading = false,
+  validationIssues,
+  onApplyFixes,
+  onIgnoreIssues
+}: GPXUploaderProps) {
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [queuedFiles, setQueuedFiles] = useState<File[]>([]);
+  const [mergeMode, setMergeMode] = useState<RouteMergeMode>('join');
 
-  const handleFiles = useCallback(async (files: FileList | null) => {
+  const handleFiles = useCallback((files: FileList | null) => {
     if (!files || files.length === 0) return;
 
-    const file = files[0];
+    const selected = Array.from(files);
     setError(null);
 
-    // Validate file
-    if (!validateGPXFile(file)) {
-      setError('Please select a valid GPX file (max 50MB)');
+    // Validate files
+    const invalid = selected.filter(file => !validateRouteFile(file));
+    if (invalid.length > 0) {
+      setError(`${invalid.map(file => file.name).join(', ')}: please select valid GPX, TCX, KML/KMZ, GeoJSON or FIT files (max 50MB each)`);
       return;
     }
 
-    try {
-      const gpxData = await parseGPXFile(file);
-      onGPXLoaded(gpxData, file.name);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse GPX file');
+    // A single file is loaded straight away, several are queued so they can be ordered first.
+    // Parsing happens in the processor so it can report progress and be cancelled.
+    if (selected.length === 1 && queuedFiles.length === 0) {
+      onFilesSelected(selected, 'separate');
+      return;
     }
-  }, [onGPXLoaded]);
+
+    setQueuedFiles(prev => [...prev, ...selected]);
+  }, [onFilesSelected, queuedFiles.length]);
+
+  const moveQueuedFile = (index: number, offset: number) => {
+    setQueuedFiles(prev => {
+      const next = [...prev];
+      const [file] = next.splice(index, 1);
+      next.splice(index + offset, 0, file);
+      return next;
+    });
+  };
+
+  const removeQueuedFile = (index: number) => {
+    setQueuedFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleLoadQueuedFiles = () => {
+    onFilesSelected(queuedFiles, mergeMode);
+    setQueuedFiles([]);
+  };
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -75,9 +108,10 @@ export function GPXUploader({ onGPXLoaded, isLoading = false }: GPXUploaderProps
           >
             <input
               type="file"
-              accept=".gpx"
+              accept={getSupportedExtensions().join(',')}
               onChange={handleChange}
               disabled={isLoading}
+              multiple
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
               id="gpx-upload"
             />
@@ -94,20 +128,20 @@ export function GPXUploader({ onGPXLoaded, isLoading = false }: GPXUploaderProps
               </div>
               
               <h3 className="text-lg font-semibold mb-2">
-                {isLoading ? 'Processing GPX file...' : 'Upload GPX File'}
+                {isLoading ? 'Processing route file...' : 'Upload Route File'}
               </h3>
               
               <p className="text-muted-foreground mb-4 max-w-sm">
                 {isLoading 
                   ? 'Please wait while we parse your route data'
-                  : 'Drag and drop your GPX file here, or click to browse'
+                  : 'Drag and drop one or more GPX, TCX, KML, GeoJSON or FIT files here, or click to browse'
                 }
               </p>
               
               {!isLoading && (
                 <Button variant="outline" asChild>
                   <label htmlFor="gpx-upload" className="cursor-pointer">
-                    Choose File
+                    Choose Files
                   </label>
                 </Button>
               )}
@@ -123,10 +157,87 @@ export function GPXUploader({ onGPXLoaded, isLoading = false }: GPXUploaderProps
         </Alert>
       )}
 
+      {queuedFiles.length > 0 && (
+        <Card className="mt-4">
+          <CardContent className="p-4 space-y-4">
+            <div className="space-y-2">
+              {queuedFiles.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm">
+                  <span className="w-6 text-muted-foreground">{index + 1}.</span>
+                  <span className="flex-1 truncate">{file.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveQueuedFile(index, -1)}
+                    disabled={index === 0}
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveQueuedFile(index, 1)}
+                    disabled={index === queuedFiles.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeQueuedFile(index)}
+                    title="Remove"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2 pt-4 border-t">
+              <div className="flex gap-2">
+                <Button
+                  variant={mergeMode === 'join' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setMergeMode('join')}
+                >
+                  Join end-to-end
+                </Button>
+                <Button
+                  variant={mergeMode === 'separate' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setMergeMode('separate')}
+                >
+                  Separate routes
+                </Button>
+              </div>
+              <Button onClick={handleLoadQueuedFiles} disabled={isLoading}>
+                Load {queuedFiles.length} {queuedFiles.length === 1 ? 'file' : 'files'}
+              </Button>
+            </div>
+            {mergeMode === 'join' && (
+              <p className="text-xs text-muted-foreground">
+                Legs are joined in this order. A leg is reversed automatically when its end is closer
+                to the previous leg's finish than its start.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {validationIssues && validationIssues.length > 0 && onApplyFixes && onIgnoreIssues && (
+        <ValidationReport
+          issues={validationIssues}
+          onApplyFixes={onApplyFixes}
+          onIgnore={onIgnoreIssues}
+        />
+      )}
+
       <div className="mt-4 text-sm text-muted-foreground text-center">
-        <p>Supported format: GPX files up to 50MB</p>
+        <p>Supported formats: GPX, TCX, KML/KMZ, GeoJSON and FIT files up to 50MB each</p>
         <p className="mt-1">
-          Your GPX file will be processed locally in your browser - no data is sent to external servers
+          Your file will be processed locally in your browser - no data is sent to external servers
         </p>
       </div>
     </div>
@@ -7,33 +7,83 @@ import {
   Navigation, 
   Info,
   Map,
-  Loader2
+  Loader2,
+  Unlink,
+  RotateCcw,
+  RotateCw,
+  Droplet,
+  Utensils,
+  Mountain,
+  Bed,
+  TriangleAlert,
+  Camera,
+  Flag,
+  Repeat
 } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Slider } from './ui/slider';
+import { Badge } from './ui/badge';
 import { MapView } from './MapView';
-import { StreetViewImage } from '../types';
-import { formatDistance, formatCoordinates } from '../lib/utils';
-import { loadStreetViewImage } from '../lib/street-view-api';
+import { CueSheet } from './CueSheet';
+import { ElevationProfile } from './ElevationProfile';
+import { ClimbList } from './ClimbList';
+import { StreetViewImage, Cue, ElevationStats, Climb, RouteSimplification, StreetViewSource } from '../types';
+import { formatDistance, formatCoordinates, formatDuration } from '../lib/utils';
+import { loadStreetViewImage, getImageHeading, findNearestImage } from '../lib/street-view-api';
+import type { ImageryProvider } from '../lib/imagery';
+import { getWaypointKind, getWaypointLabel, WAYPOINT_KIND_COLORS } from '../lib/waypoints';
+import type { WaypointKind } from '../lib/waypoints';
+
+// Degrees the camera turns per click when overriding the heading
+const HEADING_STEP = 15;
+
+const WAYPOINT_ICONS: Record<WaypointKind, LucideIcon> = {
+  water: Droplet,
+  food: Utensils,
+  summit: Mountain,
+  lodging: Bed,
+  danger: TriangleAlert,
+  scenic: Camera,
+  other: Flag
+};
 
 interface ImageViewerProps {
   images: StreetViewImage[];
+  cues?: Cue[];
+  elevationStats?: ElevationStats | null;
+  climbs?: Climb[];
+  routeLine?: RouteSimplification | null;
+  onSampleClimbDensely?: (climb: Climb) => void;
+  onPickDistance?: (distance: number) => void; // when given, clicks on the profile or map pick a distance instead of seeking
   onExport: () => void;
   isExporting?: boolean;
-  apiKey: string;
+  provider: ImageryProvider;
+  apiKey: string; // the provider's API key or access token
+  onHeadingOverride?: (imageId: string, heading: number | undefined) => void;
   settings: {
     imageSize: string;
     fov: number;
     pitch: number;
+    searchRadius: number;
+    panoramaSource: StreetViewSource;
   };
 }
 
 export function ImageViewer({ 
   images, 
+  cues = [],
+  elevationStats = null,
+  climbs = [],
+  routeLine = null,
+  onSampleClimbDensely,
+  onPickDistance,
   onExport, 
   isExporting = false, 
+  provider,
   apiKey,
+  onHeadingOverride,
   settings 
 }: ImageViewerProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -44,30 +94,31 @@ export function ImageViewer({
   const [isLoadingImage, setIsLoadingImage] = useState(false);
 
   const currentImage = loadedImages[currentIndex];
+  const canLoad = !provider.credential || !!apiKey;
   const validImages = loadedImages.filter(img => img.loaded && !img.error);
+  const segmentCount = loadedImages.length > 0 ? loadedImages[loadedImages.length - 1].segmentIndex + 1 : 0;
+  const isSegmentBreak = currentIndex > 0 &&
+    currentImage?.segmentIndex !== loadedImages[currentIndex - 1].segmentIndex;
+  const reuseSource = currentImage?.reusedFrom
+    ? loadedImages.find(img => img.id === currentImage.reusedFrom)
+    : undefined;
+  const overlapSourceIndex = currentImage?.overlap
+    ? loadedImages.findIndex(img => img.id === currentImage.overlap!.imageId)
+    : -1;
+  const waypointKind = currentImage?.waypoint ? getWaypointKind(currentImage.waypoint) : null;
+  const WaypointIcon = waypointKind ? WAYPOINT_ICONS[waypointKind] : null;
 
   // Load current image if not already loaded
   useEffect(() => {
     const loadCurrentImage = async () => {
-      if (!currentImage || currentImage.loaded || currentImage.isLoading || !apiKey) {
+      if (!currentImage || currentImage.loaded || currentImage.isLoading || currentImage.error || !canLoad) {
         return;
       }
 
       setIsLoadingImage(true);
       try {
-        const loadedImage = await loadStreetViewImage(
-          currentImage,
-          apiKey,
-          settings.imageSize,
-          settings.fov,
-          settings.pitch
-        );
-
-        setLoadedImages(prev => 
-          prev.map((img, index) => 
-            index === currentIndex ? loadedImage : img
-          )
-        );
+        const updated = await loadFrame(currentImage, reuseSource, provider, apiKey, settings);
+        setLoadedImages(prev => replaceImages(prev, updated));
       } catch (error) {
         console.error('Failed to load Street View image:', error);
       } finally {
@@ -76,12 +127,12 @@ export function ImageViewer({
     };
 
     loadCurrentImage();
-  }, [currentIndex, currentImage, apiKey, settings]);
+  }, [currentIndex, currentImage, reuseSource, canLoad, provider, apiKey, settings]);
 
   // Preload adjacent images
   useEffect(() => {
     const preloadAdjacent = async () => {
-      if (!apiKey) return;
+      if (!canLoad) return;
 
       const indicesToPreload = [
         currentIndex - 1,
@@ -90,24 +141,16 @@ export function ImageViewer({
         index >= 0 && 
         index < loadedImages.length && 
         !loadedImages[index].loaded && 
-        !loadedImages[index].isLoading
+        !loadedImages[index].isLoading &&
+        !loadedImages[index].error
       );
 
       for (const index of indicesToPreload) {
         try {
-          const loadedImage = await loadStreetViewImage(
-            loadedImages[index],
-            apiKey,
-            settings.imageSize,
-            settings.fov,
-            settings.pitch
-          );
-
-          setLoadedImages(prev => 
-            prev.map((img, i) => 
-              i === index ? loadedImage : img
-            )
-          );
+          const image = loadedImages[index];
+          const source = image.reusedFrom ? loadedImages.find(img => img.id === image.reusedFrom) : undefined;
+          const updated = await loadFrame(image, source, provider, apiKey, settings);
+          setLoadedImages(prev => replaceImages(prev, updated));
         } catch (error) {
           console.error('Failed to preload adjacent image:', error);
         }
@@ -117,7 +160,7 @@ export function ImageViewer({
     // Delay preloading to prioritize current image
     const timer = setTimeout(preloadAdjacent, 500);
     return () => clearTimeout(timer);
-  }, [currentIndex, loadedImages, apiKey, settings]);
+  }, [currentIndex, loadedImages, canLoad, provider, apiKey, settings]);
 
   // Keyboard navigation
   useEffect(() => {
@@ -159,6 +202,28 @@ export function ImageViewer({
     setImageLoaded(false);
   }, []);
 
+  const handleClimbSelect = useCallback((climb: Climb) => {
+    setCurrentIndex(findNearestImage(loadedImages, climb.startDistance));
+    setImageLoaded(false);
+  }, [loadedImages]);
+
+  // Point the current frame's camera manually; the image is reloaded with the new heading
+  const changeHeading = useCallback((heading: number | undefined) => {
+    const image = loadedImages[currentIndex];
+    if (!image) return;
+
+    const normalized = heading === undefined ? undefined : ((heading % 360) + 360) % 360;
+    setLoadedImages(prev =>
+      prev.map((img, index) =>
+        index === currentIndex
+          ? { ...img, headingOverride: normalized, reusedFrom: undefined, url: undefined, loaded: false, isLoading: false, error: undefined }
+          : img
+      )
+    );
+    setImageLoaded(false);
+    onHeadingOverride?.(image.id, normalized);
+  }, [currentIndex, loadedImages, onHeadingOverride]);
+
   if (!currentImage) {
     return (
       <Card className="w-full max-w-4xl mx-auto">
@@ -185,180 +250,383 @@ export function ImageViewer({
               images={loadedImages}
               currentIndex={currentIndex}
               onImageSelect={handleMapImageSelect}
+              routeLine={routeLine}
               showMarkers={true}
+              onPickDistance={onPickDistance}
             />
           </CardContent>
         </Card>
       )}
 
-      {/* Main Image Display */}
-      <Card className="overflow-hidden">
-        <CardHeader className="pb-2">
-          <div className="flex items-center justify-between">
-            <CardTitle className="flex items-center gap-2 text-lg">
-              <Navigation className="h-5 w-5" />
-              Street View Explorer
-            </CardTitle>
-            <div className="flex items-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setShowMap(!showMap)}
-              >
-                <Map className="h-4 w-4" />
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setShowInfo(!showInfo)}
-              >
-                <Info className="h-4 w-4" />
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={onExport}
-                disabled={isExporting || validImages.length === 0}
-              >
-                <Download className="h-4 w-4" />
-                {isExporting ? 'Exporting...' : 'Export'}
-              </Button>
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent className="p-0">
-          <div className="relative bg-muted">
-            {/* Image */}
-            <div className="relative aspect-square max-h-[70vh] overflow-hidden">
-              {currentImage.error ? (
-                <div className="flex items-center justify-center h-full bg-muted">
-                  <div className="text-center">
-                    <MapPin className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
-                    <p className="text-muted-foreground">Street View not available</p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      {formatCoordinates(currentImage.coordinates.lat, currentImage.coordinates.lng)}
-                    </p>
-                  </div>
-                </div>
-              ) : !currentImage.url || isLoadingImage ? (
-                <div className="flex items-center justify-center h-full bg-muted">
-                  <div className="text-center">
-                    <Loader2 className="h-12 w-12 text-muted-foreground mx-auto mb-2 animate-spin" />
-                    <p className="text-muted-foreground">Loading Street View...</p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      {formatCoordinates(currentImage.coordinates.lat, currentImage.coordinates.lng)}
-                    </p>
-                  </div>
+      <div className="grid gap-4 lg:grid-cols-[1fr_18rem] items-start">
+        <div className="space-y-4 min-w-0">
+          {/* Main Image Display */}
+          <Card className="overflow-hidden">
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Navigation className="h-5 w-5" />
+                  Street View Explorer
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowMap(!showMap)}
+                  >
+                    <Map className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowInfo(!showInfo)}
+                  >
+                    <Info className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onExport}
+                    disabled={isExporting || validImages.length === 0}
+                  >
+                    <Download className="h-4 w-4" />
+                    {isExporting ? 'Exporting...' : 'Export'}
+                  </Button>
                 </div>
-              ) : (
-                <>
-                  {!imageLoaded && (
-                    <div className="absolute inset-0 flex items-center justify-center bg-muted">
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="relative bg-muted">
+                {/* Image */}
+                <div className="relative aspect-square max-h-[70vh] overflow-hidden">
+                  {currentImage.error ? (
+                    <div className="flex items-center justify-center h-full bg-muted">
+                      <div className="text-center">
+                        <MapPin className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
+                        <p className="text-muted-foreground">Street View not available</p>
+                        <p className="text-xs text-muted-foreground mt-1">{currentImage.error}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formatCoordinates(currentImage.coordinates.lat, currentImage.coordinates.lng)}
+                        </p>
+                      </div>
+                    </div>
+                  ) : !currentImage.url || isLoadingImage ? (
+                    <div className="flex items-center justify-center h-full bg-muted">
                       <div className="text-center">
                         <Loader2 className="h-12 w-12 text-muted-foreground mx-auto mb-2 animate-spin" />
-                        <p className="text-muted-foreground">Loading image...</p>
+                        <p className="text-muted-foreground">Loading Street View...</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formatCoordinates(currentImage.coordinates.lat, currentImage.coordinates.lng)}
+                        </p>
                       </div>
                     </div>
+                  ) : (
+                    <>
+                      {!imageLoaded && (
+                        <div className="absolute inset-0 flex items-center justify-center bg-muted">
+                          <div className="text-center">
+                            <Loader2 className="h-12 w-12 text-muted-foreground mx-auto mb-2 animate-spin" />
+                            <p className="text-muted-foreground">Loading image...</p>
+                          </div>
+                        </div>
+                      )}
+                      <img
+                        src={currentImage.url!}
+                        alt={`Street View at ${formatDistance(currentImage.distance)}`}
+                        className={`w-full h-full object-cover transition-opacity duration-300 ${
+                          imageLoaded ? 'opacity-100' : 'opacity-0'
+                        }`}
+                        onLoad={handleImageLoad}
+                        onError={() => setImageLoaded(true)}
+                      />
+                      <span className="absolute bottom-2 right-2 rounded bg-black/50 px-2 py-0.5 text-xs text-white">
+                        {currentImage.metadata?.copyright ?? provider.attribution}
+                      </span>
+                    </>
                   )}
-                  <img
-                    src={currentImage.url!}
-                    alt={`Street View at ${formatDistance(currentImage.distance)}`}
-                    className={`w-full h-full object-cover transition-opacity duration-300 ${
-                      imageLoaded ? 'opacity-100' : 'opacity-0'
-                    }`}
-                    onLoad={handleImageLoad}
-                    onError={() => setImageLoaded(true)}
-                  />
-                </>
-              )}
-            </div>
-
-            {/* Navigation Buttons */}
-            <Button
-              variant="secondary"
-              size="icon"
-              className="absolute left-4 top-1/2 transform -translate-y-1/2 opacity-80 hover:opacity-100"
-              onClick={goToPrevious}
-              disabled={loadedImages.length <= 1}
-            >
-              <ChevronLeft className="h-6 w-6" />
-            </Button>
-            <Button
-              variant="secondary"
-              size="icon"
-              className="absolute right-4 top-1/2 transform -translate-y-1/2 opacity-80 hover:opacity-100"
-              onClick={goToNext}
-              disabled={loadedImages.length <= 1}
-            >
-              <ChevronRight className="h-6 w-6" />
-            </Button>
-
-            {/* Image Counter */}
-            <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-background/80 backdrop-blur-sm rounded-full px-3 py-1 text-sm">
-              {currentIndex + 1} / {loadedImages.length}
-            </div>
-
-            {/* Info Overlay */}
-            {showInfo && (
-              <div className="absolute top-4 left-4 bg-background/90 backdrop-blur-sm rounded-lg p-3 text-sm space-y-1 max-w-xs">
-                <div className="flex items-center gap-2 font-medium">
-                  <MapPin className="h-4 w-4" />
-                  Location Info
                 </div>
-                <div>
-                  <span className="text-muted-foreground">Distance:</span> {formatDistance(currentImage.distance)}
+
+                {/* Navigation Buttons */}
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute left-4 top-1/2 transform -translate-y-1/2 opacity-80 hover:opacity-100"
+                  onClick={goToPrevious}
+                  disabled={loadedImages.length <= 1}
+                >
+                  <ChevronLeft className="h-6 w-6" />
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute right-4 top-1/2 transform -translate-y-1/2 opacity-80 hover:opacity-100"
+                  onClick={goToNext}
+                  disabled={loadedImages.length <= 1}
+                >
+                  <ChevronRight className="h-6 w-6" />
+                </Button>
+
+                <div className="absolute top-4 right-4 flex flex-col items-end gap-1">
+                  {/* Segment Break Marker */}
+                  {isSegmentBreak && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Unlink className="h-3 w-3" />
+                      Segment break - gap in route before this frame
+                    </Badge>
+                  )}
+
+                  {/* Reused Frame Marker */}
+                  {currentImage.reusedFrom && currentImage.overlap &&
+                    (currentImage.overlap.direction === 'same' || provider.canAim) && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Repeat className="h-3 w-3" />
+                      {currentImage.overlap.direction === 'same'
+                        ? `Reused from an earlier lap (image ${overlapSourceIndex + 1})`
+                        : `Image ${overlapSourceIndex + 1}'s panorama, turned around`}
+                    </Badge>
+                  )}
                 </div>
-                <div>
-                  <span className="text-muted-foreground">Coordinates:</span>{' '}
-                  {formatCoordinates(currentImage.coordinates.lat, currentImage.coordinates.lng)}
+
+                {/* Waypoint Label */}
+                {currentImage.waypoint && WaypointIcon && waypointKind && (
+                  <Badge
+                    className="absolute top-4 left-1/2 transform -translate-x-1/2 gap-1 text-white"
+                    style={{ backgroundColor: WAYPOINT_KIND_COLORS[waypointKind] }}
+                    title={currentImage.waypoint.desc}
+                  >
+                    <WaypointIcon className="h-3 w-3" />
+                    {getWaypointLabel(currentImage.waypoint)}
+                  </Badge>
+                )}
+
+                {/* Image Counter */}
+                <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-background/80 backdrop-blur-sm rounded-full px-3 py-1 text-sm">
+                  {currentIndex + 1} / {loadedImages.length}
                 </div>
-                {currentImage.heading !== undefined && (
-                  <div>
-                    <span className="text-muted-foreground">Heading:</span> {Math.round(currentImage.heading)}°
+
+                {/* Info Overlay */}
+                {showInfo && (
+                  <div className="absolute top-4 left-4 bg-background/90 backdrop-blur-sm rounded-lg p-3 text-sm space-y-1 max-w-xs">
+                    <div className="flex items-center gap-2 font-medium">
+                      <MapPin className="h-4 w-4" />
+                      Location Info
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Distance:</span> {formatDistance(currentImage.distance)}
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Coordinates:</span>{' '}
+                      {formatCoordinates(currentImage.coordinates.lat, currentImage.coordinates.lng)}
+                    </div>
+                    {currentImage.heading !== undefined && (
+                      <div>
+                        <span className="text-muted-foreground">Heading:</span> {Math.round(getImageHeading(currentImage))}°
+                        {provider.canAim && currentImage.headingOverride !== undefined && ' (manual)'}
+                      </div>
+                    )}
+                    {currentImage.metadata?.date && (
+                      <div>
+                        <span className="text-muted-foreground">Captured:</span> {currentImage.metadata.date}
+                      </div>
+                    )}
+                    {currentImage.snap && (
+                      <div>
+                        <span className="text-muted-foreground">Panorama:</span> {formatDistance(currentImage.snap.offset)} from the route
+                        {currentImage.snap.radius > settings.searchRadius && ` (found within ${currentImage.snap.radius}m)`}
+                      </div>
+                    )}
+                    {currentImage.waypoint?.desc && (
+                      <div>
+                        <span className="text-muted-foreground">Waypoint:</span> {currentImage.waypoint.desc}
+                      </div>
+                    )}
+                    {currentImage.time && (
+                      <div>
+                        <span className="text-muted-foreground">Time:</span> {currentImage.time.toLocaleString()}
+                      </div>
+                    )}
+                    {currentImage.elapsedTime !== undefined && (
+                      <div>
+                        <span className="text-muted-foreground">Elapsed:</span> {formatDuration(currentImage.elapsedTime)}
+                      </div>
+                    )}
+                    {currentImage.sensors?.hr !== undefined && (
+                      <div>
+                        <span className="text-muted-foreground">Heart rate:</span> {Math.round(currentImage.sensors.hr)} bpm
+                      </div>
+                    )}
+                    {currentImage.sensors?.cad !== undefined && (
+                      <div>
+                        <span className="text-muted-foreground">Cadence:</span> {Math.round(currentImage.sensors.cad)} rpm
+                      </div>
+                    )}
+                    {currentImage.sensors?.power !== undefined && (
+                      <div>
+                        <span className="text-muted-foreground">Power:</span> {Math.round(currentImage.sensors.power)} W
+                      </div>
+                    )}
+                    {currentImage.sensors?.speed !== undefined && (
+                      <div>
+                        <span className="text-muted-foreground">Speed:</span> {(currentImage.sensors.speed * 3.6).toFixed(1)} km/h
+                      </div>
+                    )}
+                    {currentImage.sensors?.atemp !== undefined && (
+                      <div>
+                        <span className="text-muted-foreground">Temperature:</span> {currentImage.sensors.atemp.toFixed(1)}°C
+                      </div>
+                    )}
+                    {currentImage.overlap && (
+                      <div>
+                        <span className="text-muted-foreground">Overlaps:</span> image {overlapSourceIndex + 1}
+                        {currentImage.overlap.direction === 'same' ? ' (same direction)' : ' (opposite direction)'}
+                      </div>
+                    )}
+                    {segmentCount > 1 && (
+                      <div>
+                        <span className="text-muted-foreground">Segment:</span> {currentImage.segmentIndex + 1} / {segmentCount}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground pt-1">
+                      Press 'I' to toggle this info
+                    </div>
                   </div>
                 )}
-                <div className="text-xs text-muted-foreground pt-1">
-                  Press 'I' to toggle this info
-                </div>
               </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
 
-      {/* Controls */}
-      <Card>
-        <CardContent className="p-4">
-          <div className="space-y-4">
-            {/* Progress Slider */}
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm text-muted-foreground">
-                <span>Route Progress</span>
-                <span>{formatDistance(currentImage.distance)}</span>
-              </div>
-              <Slider
-                value={[currentIndex]}
-                onValueChange={handleSliderChange}
-                max={loadedImages.length - 1}
-                step={1}
-                className="w-full"
-              />
-            </div>
-
-            {/* Navigation Hints */}
-            <div className="flex justify-between items-center text-xs text-muted-foreground">
-              <div className="flex items-center gap-4">
-                <span>← → Navigate</span>
-                <span>I Info</span>
-                <span>Map Toggle</span>
-              </div>
-              <div>
-                {validImages.length} / {loadedImages.length} images loaded
+          {/* Controls */}
+          <Card>
+            <CardContent className="p-4">
+              <div className="space-y-4">
+                {/* Progress Slider */}
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>Route Progress</span>
+                    <span>{formatDistance(currentImage.distance)}</span>
+                  </div>
+                  <Slider
+                    value={[currentIndex]}
+                    onValueChange={handleSliderChange}
+                    max={loadedImages.length - 1}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+
+                {/* Heading Override */}
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    Camera heading: {Math.round(getImageHeading(currentImage))}°
+                    {provider.canAim && currentImage.headingOverride !== undefined && ' (manual)'}
+                  </span>
+                  {/* Providers that cannot turn the camera pick the photo facing the route instead */}
+                  {provider.canAim ? (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => changeHeading(getImageHeading(currentImage) - HEADING_STEP)}
+                        title={`Turn left ${HEADING_STEP}°`}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => changeHeading(getImageHeading(currentImage) + HEADING_STEP)}
+                        title={`Turn right ${HEADING_STEP}°`}
+                      >
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => changeHeading(undefined)}
+                        disabled={currentImage.headingOverride === undefined}
+                      >
+                        Reset
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {provider.label} photos face the way they were taken
+                    </span>
+                  )}
+                </div>
+
+                {/* Navigation Hints */}
+                <div className="flex justify-between items-center text-xs text-muted-foreground">
+                  <div className="flex items-center gap-4">
+                    <span>← → Navigate</span>
+                    <span>I Info</span>
+                    <span>Map Toggle</span>
+                  </div>
+                  <div>
+                    {validImages.length} / {loadedImages.length} images loaded
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
+
+          {/* Elevation Profile */}
+          <ElevationProfile
+            images={loadedImages}
+            stats={elevationStats}
+            currentIndex={currentIndex}
+            onSeek={handleMapImageSelect}
+            onPick={onPickDistance}
+          />
+        </div>
+
+        {/* Cue Sheet and Climbs */}
+        <div className="space-y-4">
+          <CueSheet cues={cues} currentIndex={currentIndex} onCueSelect={handleMapImageSelect} />
+          <ClimbList
+            climbs={climbs}
+            onClimbSelect={handleClimbSelect}
+            onSampleDensely={onSampleClimbDensely}
+          />
+        </div>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Load a frame's image. A frame reused from an earlier lap shows that frame's image instead,
+ * loading it first if needed, so the earlier frame is returned as well. A return leg reused from
+ * the other direction loads the earlier frame's panorama facing its own way, or its own image
+ * with providers that cannot aim their images.
+ */
+async function loadFrame(
+  image: StreetViewImage,
+  source: StreetViewImage | undefined,
+  provider: ImageryProvider,
+  apiKey: string,
+  settings: ImageViewerProps['settings']
+): Promise<StreetViewImage[]> {
+  const options = {
+    apiKey,
+    search: { radius: settings.searchRadius, source: settings.panoramaSource },
+    size: settings.imageSize,
+    fov: settings.fov,
+    pitch: settings.pitch
+  };
+
+  if (source && image.overlap?.direction === 'opposite') {
+    const target = provider.canAim ? { ...image, coordinates: source.coordinates, metadata: source.metadata } : image;
+    const loaded = await loadStreetViewImage(target, provider, options);
+    return [{ ...image, url: loaded.url, loaded: loaded.loaded, error: loaded.error, isLoading: false }];
+  }
+
+  const loaded = await loadStreetViewImage(source ?? image, provider, options);
+  if (!source) return [loaded];
+
+  return [loaded, { ...image, url: loaded.url, loaded: loaded.loaded, error: loaded.error, isLoading: false }];
+}
+
+function replaceImages(images: StreetViewImage[], updated: StreetViewImage[]): StreetViewImage[] {
+  return images.map(image => updated.find(update => update.id === image.id) ?? image);
+}
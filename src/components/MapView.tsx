@@ -1,9 +1,15 @@
-import React, { useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Polyline, Marker, Popup, useMap } from 'react-leaflet';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { MapContainer, TileLayer, Polyline, Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
 import { LatLngBounds } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { StreetViewImage } from '../types';
-import { formatDistance, formatCoordinates } from '../lib/utils';
+import { StreetViewImage, RouteSimplification } from '../types';
+import { calculateDistance, formatDistance, formatCoordinates } from '../lib/utils';
+import { getImageHeading } from '../lib/street-view-api';
+import { getImageGradients, getGradientColor } from '../lib/climbs';
+import { getWaypointKind, getWaypointLabel, WAYPOINT_KIND_COLORS } from '../lib/waypoints';
+import type { WaypointKind } from '../lib/waypoints';
+import { getCoverageStatus, COVERAGE_COLORS, COVERAGE_LABELS } from '../lib/coverage';
+import type { CoverageStatus } from '../lib/coverage';
 
 // Fix for default markers in react-leaflet
 import L from 'leaflet';
@@ -22,7 +28,59 @@ interface MapViewProps {
   images: StreetViewImage[];
   currentIndex: number;
   onImageSelect: (index: number) => void;
+  routeLine?: RouteSimplification | null; // drawn instead of joining up the frames when given
   showMarkers?: boolean;
+  onPickDistance?: (distance: number) => void; // when given, clicks pick the distance of the nearest frame
+}
+
+const waypointIcons = new Map<WaypointKind, L.Icon>();
+
+// Pin icon for frames generated at a waypoint, coloured by the kind of waypoint
+function getWaypointIcon(kind: WaypointKind): L.Icon {
+  let icon = waypointIcons.get(kind);
+  if (!icon) {
+    icon = new L.Icon({
+      iconUrl: 'data:image/svg+xml;base64,' + btoa(`
+        <svg width="24" height="32" viewBox="0 0 24 32" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M12 31C12 31 22 19.5 22 12A10 10 0 0 0 2 12C2 19.5 12 31 12 31Z" fill="${WAYPOINT_KIND_COLORS[kind]}" stroke="#ffffff" stroke-width="2"/>
+          <circle cx="12" cy="12" r="4" fill="#ffffff"/>
+        </svg>
+      `),
+      iconSize: [24, 32],
+      iconAnchor: [12, 31],
+      popupAnchor: [0, -28],
+    });
+    waypointIcons.set(kind, icon);
+  }
+  return icon;
+}
+
+const frameIcons = new Map<string, L.Icon>();
+
+// Dot icon for a frame, coloured by Street View coverage. Frames reusing an earlier lap's image
+// are drawn hollow.
+function getFrameIcon(status: CoverageStatus, hollow: boolean): L.Icon {
+  const key = `${status}:${hollow}`;
+  let icon = frameIcons.get(key);
+  if (!icon) {
+    const color = COVERAGE_COLORS[status];
+    icon = new L.Icon({
+      iconUrl: 'data:image/svg+xml;base64,' + btoa(hollow ? `
+        <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <circle cx="8" cy="8" r="5" fill="#ffffff" stroke="${color}" stroke-width="2"/>
+        </svg>
+      ` : `
+        <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <circle cx="8" cy="8" r="6" fill="${color}" stroke="#ffffff" stroke-width="1"/>
+        </svg>
+      `),
+      iconSize: [16, 16],
+      iconAnchor: [8, 8],
+      popupAnchor: [0, -8],
+    });
+    frameIcons.set(key, icon);
+  }
+  return icon;
 }
 
 // Component to fit map bounds to route
@@ -54,11 +112,83 @@ function CenterOnCurrent({ currentImage }: { currentImage: StreetViewImage | nul
   return null;
 }
 
-export function MapView({ images, currentIndex, onImageSelect, showMarkers = true }: MapViewProps) {
+// Component to report the distance of the frame nearest to a click on the map
+function PickOnClick({ images, onPick }: { images: StreetViewImage[]; onPick: (distance: number) => void }) {
+  useMapEvents({
+    click: (e) => {
+      let nearest = images[0];
+      let nearestDistance = Infinity;
+      images.forEach(image => {
+        const distance = calculateDistance(e.latlng.lat, e.latlng.lng, image.coordinates.lat, image.coordinates.lng);
+        if (distance < nearestDistance) {
+          nearest = image;
+          nearestDistance = distance;
+        }
+      });
+      onPick(nearest.distance);
+    }
+  });
+
+  return null;
+}
+
+export function MapView({ images, currentIndex, onImageSelect, routeLine = null, showMarkers = true, onPickDistance }: MapViewProps) {
   const currentImage = images[currentIndex];
   
-  // Create route path from all images
-  const routePath = images.map(img => [img.coordinates.lat, img.coordinates.lng] as [number, number]);
+  // Create route lines from the simplified route (or the frames without one), coloured by the
+  // gradient between frames. Lines are split where the colour changes and at segment boundaries,
+  // so gaps are not bridged.
+  const routeLines = useMemo(() => {
+    const gradients = getImageGradients(images);
+    const lines: Array<{ color: string; positions: [number, number][]; endKey: string }> = [];
+
+    const addLeg = (from: [number, number], to: [number, number], gradient: number | null, key: string, endKey: string) => {
+      const color = getGradientColor(gradient);
+      const last = lines[lines.length - 1];
+
+      if (last && last.color === color && last.endKey === key) {
+        last.positions.push(to);
+        last.endKey = endKey;
+      } else {
+        lines.push({ color, positions: [from, to], endKey });
+      }
+    };
+
+    if (routeLine) {
+      // Both are ordered along the route, so the frame before each leg only moves forward
+      let frame = 0;
+      routeLine.segments.forEach((points, segmentIndex) => {
+        for (let i = 1; i < points.length; i++) {
+          const middle = (routeLine.distances[segmentIndex][i - 1] + routeLine.distances[segmentIndex][i]) / 2;
+          while (frame < gradients.length - 1 && images[frame + 1].distance < middle) frame++;
+
+          addLeg(
+            [points[i - 1].lat, points[i - 1].lon],
+            [points[i].lat, points[i].lon],
+            gradients[frame] ?? null,
+            `${segmentIndex}:${i - 1}`,
+            `${segmentIndex}:${i}`
+          );
+        }
+      });
+    } else {
+      gradients.forEach((gradient, index) => {
+        const from = images[index];
+        const to = images[index + 1];
+        if (from.segmentIndex !== to.segmentIndex) return;
+
+        addLeg(
+          [from.coordinates.lat, from.coordinates.lng],
+          [to.coordinates.lat, to.coordinates.lng],
+          gradient,
+          `${index}`,
+          `${index + 1}`
+        );
+      });
+    }
+
+    return lines;
+  }, [images, routeLine]);
   
   // Create custom icon for current position
   const currentIcon = new L.Icon({
@@ -73,17 +203,6 @@ export function MapView({ images, currentIndex, onImageSelect, showMarkers = tru
     popupAnchor: [0, -12],
   });
   
-  const regularIcon = new L.Icon({
-    iconUrl: 'data:image/svg+xml;base64,' + btoa(`
-      <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-        <circle cx="8" cy="8" r="6" fill="#6b7280" stroke="#ffffff" stroke-width="1"/>
-      </svg>
-    `),
-    iconSize: [16, 16],
-    iconAnchor: [8, 8],
-    popupAnchor: [0, -8],
-  });
-
   if (images.length === 0) {
     return (
       <div className="w-full h-64 bg-muted rounded-lg flex items-center justify-center">
@@ -106,21 +225,30 @@ export function MapView({ images, currentIndex, onImageSelect, showMarkers = tru
         />
         
         {/* Route polyline */}
-        <Polyline
-          positions={routePath}
-          color="#3b82f6"
-          weight={3}
-          opacity={0.8}
-        />
+        {routeLines.map((line, index) => (
+          <Polyline
+            key={index}
+            positions={line.positions}
+            color={line.color}
+            weight={3}
+            opacity={0.8}
+          />
+        ))}
         
-        {/* Image markers */}
-        {showMarkers && images.map((image, index) => (
+        {/* Image markers; waypoint frames are always shown */}
+        {images.map((image, index) => (showMarkers || image.waypoint) && (
           <Marker
             key={image.id}
             position={[image.coordinates.lat, image.coordinates.lng]}
-            icon={index === currentIndex ? currentIcon : regularIcon}
+            icon={
+              index === currentIndex
+                ? currentIcon
+                : image.waypoint
+                  ? getWaypointIcon(getWaypointKind(image.waypoint))
+                  : getFrameIcon(getCoverageStatus(image), !!image.reusedFrom)
+            }
             eventHandlers={{
-              click: () => onImageSelect(index),
+              click: () => onPickDistance ? onPickDistance(image.distance) : onImageSelect(index),
             }}
           >
             <Popup>
@@ -128,11 +256,24 @@ export function MapView({ images, currentIndex, onImageSelect, showMarkers = tru
                 <div className="font-medium mb-1">
                   Image {index + 1} of {images.length}
                 </div>
+                {image.waypoint && (
+                  <div className="mb-1" style={{ color: WAYPOINT_KIND_COLORS[getWaypointKind(image.waypoint)] }}>
+                    {getWaypointLabel(image.waypoint)}
+                  </div>
+                )}
                 <div className="text-muted-foreground space-y-1">
                   <div>Distance: {formatDistance(image.distance)}</div>
                   <div>Coordinates: {formatCoordinates(image.coordinates.lat, image.coordinates.lng)}</div>
                   {image.heading !== undefined && (
-                    <div>Heading: {Math.round(image.heading)}°</div>
+                    <div>Heading: {Math.round(getImageHeading(image))}°</div>
+                  )}
+                  {image.reusedFrom && <div>Image reused from an earlier pass</div>}
+                  {image.metadata && (
+                    <div style={{ color: COVERAGE_COLORS[getCoverageStatus(image)] }}>
+                      {COVERAGE_LABELS[getCoverageStatus(image)]}
+                      {image.metadata.date && `, captured ${image.metadata.date}`}
+                      {image.snap && `, ${formatDistance(image.snap.offset)} away`}
+                    </div>
                   )}
                 </div>
               </div>
@@ -140,6 +281,7 @@ export function MapView({ images, currentIndex, onImageSelect, showMarkers = tru
           </Marker>
         ))}
         
+        {onPickDistance && <PickOnClick images={images} onPick={onPickDistance} />}
         <FitBounds images={images} />
         <CenterOnCurrent currentImage={currentImage} />
       </MapContainer>
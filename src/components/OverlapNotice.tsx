@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import { Repeat } from 'lucide-react';
+import { Alert, AlertDescription } from './ui/alert';
+import { Button } from './ui/button';
+import { StreetViewImage, OverlapDirection } from '../types';
+import { summarizeOverlaps } from '../lib/overlaps';
+import { formatDistance } from '../lib/utils';
+
+interface OverlapNoticeProps {
+  images: StreetViewImage[];
+  reuseOverlaps: OverlapDirection[];
+  canAim: boolean; // whether the imagery provider can turn a panorama around for return legs
+  onToggleReuse: (direction: OverlapDirection) => void;
+}
+
+const DIRECTION_LABELS: Record<OverlapDirection, { description: string; reused: string; action: string }> = {
+  same: { description: 'repeat an earlier lap', reused: 'reuse the earlier images', action: 'Skip repeated laps' },
+  opposite: {
+    description: 'cover the same road in the other direction',
+    reused: 'turn the earlier panoramas around',
+    action: 'Generate the return direction once'
+  }
+};
+
+export function OverlapNotice({ images, reuseOverlaps, canAim, onToggleReuse }: OverlapNoticeProps) {
+  const summary = useMemo(() => summarizeOverlaps(images), [images]);
+  const directions = (['same', 'opposite'] as OverlapDirection[]).filter(direction => summary[direction].frames > 0);
+
+  if (directions.length === 0) return null;
+
+  return (
+    <Alert>
+      <Repeat className="h-4 w-4" />
+      <AlertDescription className="space-y-2">
+        {directions.map(direction => (
+          <div key={direction} className="flex flex-wrap items-center justify-between gap-2">
+            <span>
+              {summary[direction].frames} {summary[direction].frames === 1 ? 'image' : 'images'}
+              {' '}({formatDistance(summary[direction].length)}) {DIRECTION_LABELS[direction].description}
+              {reuseOverlaps.includes(direction) && ` and ${DIRECTION_LABELS[direction].reused}`}.
+            </span>
+            {(direction === 'same' || canAim) && (
+              <Button
+                variant={reuseOverlaps.includes(direction) ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => onToggleReuse(direction)}
+              >
+                {reuseOverlaps.includes(direction) ? 'Load them separately' : DIRECTION_LABELS[direction].action}
+              </Button>
+            )}
+          </div>
+        ))}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,20 +1,24 @@
 import React from 'react';
-import { Loader2, MapPin, Image, Download } from 'lucide-react';
+import { Loader2, MapPin, Image, Download, ScanSearch } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Progress } from './ui/progress';
+import { Button } from './ui/button';
 import { ProcessingProgress as ProcessingProgressType } from '../types';
 
 interface ProcessingProgressProps {
   progress: ProcessingProgressType;
+  onCancel?: () => void;
 }
 
-export function ProcessingProgress({ progress }: ProcessingProgressProps) {
+export function ProcessingProgress({ progress, onCancel }: ProcessingProgressProps) {
   const getIcon = () => {
     switch (progress.stage) {
       case 'parsing':
         return <MapPin className="h-5 w-5" />;
       case 'generating':
         return <Image className="h-5 w-5" />;
+      case 'checking':
+        return <ScanSearch className="h-5 w-5" />;
       case 'loading':
         return <Download className="h-5 w-5" />;
       default:
@@ -28,6 +32,8 @@ export function ProcessingProgress({ progress }: ProcessingProgressProps) {
         return 'Parsing GPX File';
       case 'generating':
         return 'Generating Street View URLs';
+      case 'checking':
+        return 'Checking Street View Coverage';
       case 'loading':
         return 'Loading Street View Images';
       case 'complete':
@@ -69,6 +75,30 @@ export function ProcessingProgress({ progress }: ProcessingProgressProps) {
             <p>This process samples points along your track</p>
           </div>
         )}
+
+        {progress.duplicatesRemoved !== undefined && progress.duplicatesRemoved > 0 && (
+          <div className="text-xs text-muted-foreground text-center">
+            <p>
+              Removed {progress.duplicatesRemoved} duplicate {progress.duplicatesRemoved === 1 ? 'point' : 'points'}
+              {' '}that showed the same panorama as a neighbouring point
+            </p>
+          </div>
+        )}
+
+        {progress.stage === 'checking' && (
+          <div className="text-xs text-muted-foreground text-center">
+            <p>Looking up the panorama nearest to each point...</p>
+            <p>Points without imagery are skipped, so they never use image credits</p>
+          </div>
+        )}
+
+        {onCancel && progress.stage !== 'complete' && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
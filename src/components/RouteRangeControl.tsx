@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeftRight, Crosshair, Scissors } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { RangeEnd, RouteEdit } from '../types';
+import { clampRange, MIN_RANGE_LENGTH } from '../lib/route-edit';
+import { formatDistance } from '../lib/utils';
+
+interface RouteRangeControlProps {
+  edit: RouteEdit;
+  routeLength: number; // meters
+  picking: RangeEnd | null;
+  canReverse?: boolean; // false while sampling by timestamps, which a reversed route does not have
+  onPickingChange: (end: RangeEnd | null) => void;
+  onChange: (edit: RouteEdit) => void;
+}
+
+export function RouteRangeControl({
+  edit,
+  routeLength,
+  picking,
+  canReverse = true,
+  onPickingChange,
+  onChange
+}: RouteRangeControlProps) {
+  const [startKm, setStartKm] = useState('');
+  const [endKm, setEndKm] = useState('');
+
+  // Show the applied range whenever it changes
+  useEffect(() => {
+    setStartKm(((edit.range?.start ?? 0) / 1000).toFixed(1));
+    setEndKm(((edit.range?.end ?? routeLength) / 1000).toFixed(1));
+  }, [edit.range, routeLength]);
+
+  const start = parseFloat(startKm) * 1000;
+  const end = parseFloat(endKm) * 1000;
+  const isValid = !isNaN(start) && !isNaN(end) && Math.min(end, routeLength) - Math.max(start, 0) >= MIN_RANGE_LENGTH;
+
+  // The same stretch of road stays selected when the direction flips
+  const handleReverse = () => {
+    onChange({
+      reversed: !edit.reversed,
+      range: edit.range && { start: routeLength - edit.range.end, end: routeLength - edit.range.start }
+    });
+  };
+
+  const handleTrim = () => {
+    if (!isValid) return;
+    onChange({ ...edit, range: clampRange({ start, end }, routeLength) });
+  };
+
+  const togglePicking = (end: RangeEnd) => onPickingChange(picking === end ? null : end);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex flex-wrap items-end gap-3">
+        <Button
+          variant={edit.reversed ? 'secondary' : 'outline'}
+          size="sm"
+          onClick={handleReverse}
+          disabled={!edit.reversed && !canReverse}
+          title={canReverse ? undefined : 'Reversed routes have no timestamps, so they cannot use time-based sampling'}
+        >
+          <ArrowLeftRight className="h-4 w-4 mr-2" />
+          {edit.reversed ? 'Reversed' : 'Reverse'}
+        </Button>
+
+        <div className="space-y-1">
+          <Label htmlFor="range-start" className="text-xs">Start (km)</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              id="range-start"
+              type="number"
+              min={0}
+              step={0.1}
+              value={startKm}
+              onChange={(e) => setStartKm(e.target.value)}
+              className="w-24 h-9"
+            />
+            <Button
+              variant={picking === 'start' ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => togglePicking('start')}
+              title="Pick the start on the elevation profile or the map"
+            >
+              <Crosshair className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="range-end" className="text-xs">Finish (km)</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              id="range-end"
+              type="number"
+              min={0}
+              step={0.1}
+              value={endKm}
+              onChange={(e) => setEndKm(e.target.value)}
+              className="w-24 h-9"
+            />
+            <Button
+              variant={picking === 'end' ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => togglePicking('end')}
+              title="Pick the finish on the elevation profile or the map"
+            >
+              <Crosshair className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Button size="sm" onClick={handleTrim} disabled={!isValid}>
+          <Scissors className="h-4 w-4 mr-2" />
+          Trim
+        </Button>
+        {edit.range && (
+          <Button variant="ghost" size="sm" onClick={() => onChange({ ...edit, range: null })}>
+            Whole route
+          </Button>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {picking
+          ? `Click the elevation profile or the map to choose the ${picking === 'start' ? 'start' : 'finish'}.`
+          : edit.range
+            ? `Showing ${formatDistance(edit.range.start)} – ${formatDistance(edit.range.end)} of ${formatDistance(routeLength)}`
+            : `Showing the whole route (${formatDistance(routeLength)})`}
+        {!picking && edit.reversed && ', in reverse'}
+        {!isValid && ` • The finish must be at least ${MIN_RANGE_LENGTH}m after the start`}
+      </p>
+    </div>
+  );
+}
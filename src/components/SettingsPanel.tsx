@@ -1,12 +1,14 @@
 import React from 'react';
-import { Settings, Key, Image, Eye } from 'lucide-react';
+import { Settings, Key, Image, Eye, ScanSearch, Camera } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Label } from './ui/label';
 import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Button } from './ui/button';
-import { AppSettings } from '../types';
-import { validateApiKey } from '../lib/street-view-api';
+import { AppSettings, SamplingMode, SimplificationMethod, DistanceFormula, StreetViewSource } from '../types';
+import { validateApiKey, MAX_SEARCH_RADIUS } from '../lib/street-view-api';
+import { getImageryProvider, getImageryProviders, hasImageryCredential } from '../lib/imagery';
+import type { ImageryProvider } from '../lib/imagery';
 
 interface SettingsPanelProps {
   settings: AppSettings;
@@ -27,6 +29,8 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
     }
   }, [localSettings.apiKey]);
 
+  const provider = getImageryProvider(localSettings.imageryProvider);
+
   const handleSave = () => {
     onSettingsChange(localSettings);
     onClose();
@@ -35,10 +39,22 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
   const handleReset = () => {
     const defaultSettings: AppSettings = {
       intervalDistance: 50,
+      samplingMode: 'interval',
+      creditBudget: 500,
+      timeInterval: 30,
+      minStopDuration: 30,
+      headingLookAhead: 25,
+      simplifyTolerance: 5,
+      simplifyMethod: 'rdp',
+      distanceFormula: 'haversine',
       imageSize: '640x640',
       fov: 90,
       pitch: 0,
-      apiKey: ''
+      searchRadius: 50,
+      panoramaSource: 'outdoor',
+      imageryProvider: 'google',
+      apiKey: '',
+      mapillaryToken: ''
     };
     setLocalSettings(defaultSettings);
   };
@@ -53,44 +69,106 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
-          {/* API Key Section */}
+          {/* Imagery Provider */}
           <div className="space-y-3">
             <div className="flex items-center gap-2">
-              <Key className="h-4 w-4" />
-              <Label htmlFor="api-key" className="text-sm font-medium">
-                Google API Key
+              <Camera className="h-4 w-4" />
+              <Label htmlFor="imagery-provider" className="text-sm font-medium">
+                Imagery Provider
               </Label>
             </div>
-            <Input
-              id="api-key"
-              type="password"
-              placeholder="Enter your Google API key"
-              value={localSettings.apiKey}
-              onChange={(e) => setLocalSettings({ ...localSettings, apiKey: e.target.value })}
-              className={apiKeyValid === false ? 'border-destructive' : ''}
-            />
-            {apiKeyValid === false && (
-              <p className="text-sm text-destructive">
-                Invalid API key format. Please check your key.
-              </p>
-            )}
-            <div className="text-xs text-muted-foreground space-y-1">
-              <p>Required for Street View image generation.</p>
-              <p>
-                Get your API key from the{' '}
-                <a 
-                  href="https://console.cloud.google.com/apis/credentials" 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline"
-                >
-                  Google Cloud Console
-                </a>
-              </p>
-              <p>Enable the "Street View Static API" for your project.</p>
-            </div>
+            <Select
+              value={provider.id}
+              onValueChange={(value) => setLocalSettings({ ...localSettings, imageryProvider: value })}
+            >
+              <SelectTrigger id="imagery-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getImageryProviders().map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{formatProviderCost(provider)}</p>
           </div>
 
+          {/* API Key Section */}
+          {provider.credential?.setting === 'apiKey' && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Key className="h-4 w-4" />
+                <Label htmlFor="api-key" className="text-sm font-medium">
+                  Google API Key
+                </Label>
+              </div>
+              <Input
+                id="api-key"
+                type="password"
+                placeholder="Enter your Google API key"
+                value={localSettings.apiKey}
+                onChange={(e) => setLocalSettings({ ...localSettings, apiKey: e.target.value })}
+                className={apiKeyValid === false ? 'border-destructive' : ''}
+              />
+              {apiKeyValid === false && (
+                <p className="text-sm text-destructive">
+                  Invalid API key format. Please check your key.
+                </p>
+              )}
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p>Required for Street View image generation.</p>
+                <p>
+                  Get your API key from the{' '}
+                  <a 
+                    href="https://console.cloud.google.com/apis/credentials" 
+                    target="_blank" 
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    Google Cloud Console
+                  </a>
+                </p>
+                <p>Enable the "Street View Static API" for your project.</p>
+              </div>
+            </div>
+          )}
+
+          {/* Mapillary Token Section */}
+          {provider.credential?.setting === 'mapillaryToken' && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Key className="h-4 w-4" />
+                <Label htmlFor="mapillary-token" className="text-sm font-medium">
+                  Mapillary Access Token
+                </Label>
+              </div>
+              <Input
+                id="mapillary-token"
+                type="password"
+                placeholder="Enter your Mapillary client access token"
+                value={localSettings.mapillaryToken}
+                onChange={(e) => setLocalSettings({ ...localSettings, mapillaryToken: e.target.value })}
+              />
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p>
+                  Register an application on the{' '}
+                  <a
+                    href="https://www.mapillary.com/dashboard/developers"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    Mapillary developer dashboard
+                  </a>
+                  {' '}and copy its client token.
+                </p>
+                <p>Images are chosen from nearby photos facing the route, and are credited to their photographers.</p>
+              </div>
+            </div>
+          )}
+
           {/* Route Settings */}
           <div className="space-y-3">
             <Label className="text-sm font-medium">Route Settings</Label>
@@ -116,7 +194,194 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sampling-mode" className="text-xs">
+                  Sampling Mode
+                </Label>
+                <Select
+                  value={localSettings.samplingMode}
+                  onValueChange={(value) =>
+                    setLocalSettings({ ...localSettings, samplingMode: value as SamplingMode })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="interval">Fixed interval</SelectItem>
+                    <SelectItem value="adaptive">Adaptive (corner-aware)</SelectItem>
+                    <SelectItem value="time">Every N seconds of moving time</SelectItem>
+                    <SelectItem value="stops">At stops</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="heading-look-ahead" className="text-xs">
+                  Camera Look-ahead (meters)
+                </Label>
+                <Select
+                  value={localSettings.headingLookAhead.toString()}
+                  onValueChange={(value) =>
+                    setLocalSettings({ ...localSettings, headingLookAhead: parseInt(value) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="10">10m</SelectItem>
+                    <SelectItem value="25">25m</SelectItem>
+                    <SelectItem value="50">50m</SelectItem>
+                    <SelectItem value="100">100m</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="simplify-tolerance" className="text-xs">
+                  Route Simplification
+                </Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={localSettings.simplifyTolerance.toString()}
+                    onValueChange={(value) =>
+                      setLocalSettings({ ...localSettings, simplifyTolerance: parseFloat(value) })
+                    }
+                  >
+                    <SelectTrigger id="simplify-tolerance">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">Off</SelectItem>
+                      <SelectItem value="1">1m</SelectItem>
+                      <SelectItem value="2">2m</SelectItem>
+                      <SelectItem value="5">5m</SelectItem>
+                      <SelectItem value="10">10m</SelectItem>
+                      <SelectItem value="20">20m</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={localSettings.simplifyMethod}
+                    onValueChange={(value) =>
+                      setLocalSettings({ ...localSettings, simplifyMethod: value as SimplificationMethod })
+                    }
+                    disabled={localSettings.simplifyTolerance === 0}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rdp">Douglas–Peucker</SelectItem>
+                      <SelectItem value="visvalingam">Visvalingam</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="distance-formula" className="text-xs">
+                  Distance Calculation
+                </Label>
+                <Select
+                  value={localSettings.distanceFormula}
+                  onValueChange={(value) =>
+                    setLocalSettings({ ...localSettings, distanceFormula: value as DistanceFormula })
+                  }
+                >
+                  <SelectTrigger id="distance-formula">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="haversine">Standard (Haversine)</SelectItem>
+                    <SelectItem value="vincenty">High precision (Vincenty)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {localSettings.samplingMode === 'adaptive' && (
+                <div className="space-y-2">
+                  <Label htmlFor="credit-budget" className="text-xs">
+                    Image Budget (max images per route)
+                  </Label>
+                  <Input
+                    id="credit-budget"
+                    type="number"
+                    min={2}
+                    value={localSettings.creditBudget}
+                    onChange={(e) =>
+                      setLocalSettings({ ...localSettings, creditBudget: Math.max(2, parseInt(e.target.value) || 2) })
+                    }
+                  />
+                </div>
+              )}
+
+              {localSettings.samplingMode === 'time' && (
+                <div className="space-y-2">
+                  <Label htmlFor="time-interval" className="text-xs">
+                    Time Interval (seconds of moving time)
+                  </Label>
+                  <Select
+                    value={localSettings.timeInterval.toString()}
+                    onValueChange={(value) =>
+                      setLocalSettings({ ...localSettings, timeInterval: parseInt(value) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="10">10s</SelectItem>
+                      <SelectItem value="30">30s</SelectItem>
+                      <SelectItem value="60">1 min</SelectItem>
+                      <SelectItem value="120">2 min</SelectItem>
+                      <SelectItem value="300">5 min</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {localSettings.samplingMode === 'stops' && (
+                <div className="space-y-2">
+                  <Label htmlFor="min-stop-duration" className="text-xs">
+                    Minimum Stop Duration
+                  </Label>
+                  <Select
+                    value={localSettings.minStopDuration.toString()}
+                    onValueChange={(value) =>
+                      setLocalSettings({ ...localSettings, minStopDuration: parseInt(value) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="15">15s</SelectItem>
+                      <SelectItem value="30">30s</SelectItem>
+                      <SelectItem value="60">1 min</SelectItem>
+                      <SelectItem value="120">2 min</SelectItem>
+                      <SelectItem value="300">5 min</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
+            {(localSettings.samplingMode === 'time' || localSettings.samplingMode === 'stops') && (
+              <p className="text-xs text-muted-foreground">
+                Time-based sampling needs a recorded activity with timestamps, e.g. a GPX track or FIT file from a device.
+                Every recorded point is used, so route simplification is skipped.
+              </p>
+            )}
+            {localSettings.samplingMode === 'adaptive' && (
+              <p className="text-xs text-muted-foreground">
+                Adaptive sampling places frames every interval through turns and thins them out on straights,
+                never using more than the image budget. The budget is a hard limit: frames at waypoints, densely
+                sampled climbs and the ends of each track segment all count towards it, so a route costs at most{' '}
+                {localSettings.creditBudget} images
+                {provider.costPerImage > 0 && ` (about $${(localSettings.creditBudget * provider.costPerImage).toFixed(2)} with ${provider.label})`}.
+              </p>
+            )}
           </div>
 
           {/* Image Settings */}
@@ -192,6 +457,61 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
             </div>
           </div>
 
+          {/* Panorama Search */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <ScanSearch className="h-4 w-4" />
+              <Label className="text-sm font-medium">Panorama Search</Label>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="search-radius" className="text-xs">
+                  Search Radius
+                </Label>
+                <Select
+                  value={localSettings.searchRadius.toString()}
+                  onValueChange={(value) =>
+                    setLocalSettings({ ...localSettings, searchRadius: parseInt(value) })
+                  }
+                >
+                  <SelectTrigger id="search-radius">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="25">25m</SelectItem>
+                    <SelectItem value="50">50m</SelectItem>
+                    <SelectItem value="100">100m</SelectItem>
+                    <SelectItem value="200">200m</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="panorama-source" className="text-xs">
+                  Panoramas
+                </Label>
+                <Select
+                  value={localSettings.panoramaSource}
+                  onValueChange={(value) =>
+                    setLocalSettings({ ...localSettings, panoramaSource: value as StreetViewSource })
+                  }
+                >
+                  <SelectTrigger id="panorama-source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="outdoor">Outdoor only</SelectItem>
+                    <SelectItem value="default">Any (including indoor)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Points with no panorama within the radius are looked up again with a wider radius, up to {MAX_SEARCH_RADIUS}m.
+              The distance to the panorama found is shown with each image.
+            </p>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex justify-between pt-4 border-t">
             <Button variant="outline" onClick={handleReset}>
@@ -201,7 +521,10 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
               <Button variant="outline" onClick={onClose}>
                 Cancel
               </Button>
-              <Button onClick={handleSave} disabled={!localSettings.apiKey || apiKeyValid === false}>
+              <Button onClick={handleSave} disabled={
+                !hasImageryCredential(localSettings, provider) ||
+                (provider.credential?.setting === 'apiKey' && apiKeyValid === false)
+              }>
                 Save Settings
               </Button>
             </div>
@@ -210,4 +533,13 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Cost of a provider's images and availability lookups, e.g. "$7.00 per 1,000 images • lookups are free"
+ */
+function formatProviderCost(provider: ImageryProvider): string {
+  const perThousand = (cost: number, unit: string) =>
+    cost === 0 ? `${unit} are free` : `$${(cost * 1000).toFixed(2)} per 1,000 ${unit}`;
+  return `${perThousand(provider.costPerImage, 'images')} • ${perThousand(provider.costPerCheck, 'lookups')}`;
+}
@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Wrench } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import type { GPXIssue, GPXIssueType } from '../types';
+import { ISSUE_LABELS, REPAIRABLE_ISSUE_TYPES } from '../lib/gpx-validation';
+
+interface ValidationReportProps {
+  issues: GPXIssue[];
+  onApplyFixes: (issueTypes: GPXIssueType[]) => void;
+  onIgnore: () => void;
+}
+
+// Number of individual issues listed per type before collapsing
+const ISSUES_SHOWN_PER_TYPE = 5;
+
+export function ValidationReport({ issues, onApplyFixes, onIgnore }: ValidationReportProps) {
+  const groups = useMemo(() => {
+    const byType = new Map<GPXIssueType, GPXIssue[]>();
+    issues.forEach(issue => {
+      byType.set(issue.type, [...(byType.get(issue.type) || []), issue]);
+    });
+    return Array.from(byType.entries());
+  }, [issues]);
+
+  const [selectedTypes, setSelectedTypes] = useState<Set<GPXIssueType>>(
+    () => new Set(groups.map(([type]) => type).filter(type => REPAIRABLE_ISSUE_TYPES.includes(type)))
+  );
+
+  const toggleType = (type: GPXIssueType) => {
+    setSelectedTypes(prev => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertTriangle className="h-5 w-5 text-yellow-500" />
+          {issues.length} {issues.length === 1 ? 'issue' : 'issues'} found in this file
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {groups.map(([type, typeIssues]) => {
+          const repairable = REPAIRABLE_ISSUE_TYPES.includes(type);
+
+          return (
+            <div key={type} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  {repairable && (
+                    <input
+                      type="checkbox"
+                      checked={selectedTypes.has(type)}
+                      onChange={() => toggleType(type)}
+                    />
+                  )}
+                  {ISSUE_LABELS[type]}
+                </label>
+                <Badge variant={typeIssues[0].severity === 'error' ? 'destructive' : 'secondary'}>
+                  {typeIssues.length}
+                </Badge>
+              </div>
+              <ul className="text-xs text-muted-foreground space-y-0.5 pl-6">
+                {typeIssues.slice(0, ISSUES_SHOWN_PER_TYPE).map((issue, index) => (
+                  <li key={index}>
+                    {issue.line !== undefined && <span className="font-mono">Line {issue.line}: </span>}
+                    {issue.message}
+                  </li>
+                ))}
+                {typeIssues.length > ISSUES_SHOWN_PER_TYPE && (
+                  <li>...and {typeIssues.length - ISSUES_SHOWN_PER_TYPE} more</li>
+                )}
+              </ul>
+            </div>
+          );
+        })}
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={onIgnore}>
+            Continue without fixing
+          </Button>
+          <Button
+            onClick={() => onApplyFixes(Array.from(selectedTypes))}
+            disabled={selectedTypes.size === 0}
+          >
+            <Wrench className="h-4 w-4 mr-2" />
+            Remove selected points and continue
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
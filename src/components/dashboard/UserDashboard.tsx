@@ -15,7 +15,8 @@ import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { useUser } from '../../lib/supabase';
 import { UserService } from '../../lib/user-service';
-import { formatDistance } from '../../lib/utils';
+import { formatDistance, formatDuration } from '../../lib/utils';
+import { formatSpeed } from '../../lib/route-stats';
 import { CreditPurchaseDialog } from './CreditPurchaseDialog';
 import { GPXFile, CreditTransaction } from '../../lib/supabase';
 
@@ -208,6 +209,11 @@ export function UserDashboard({ onClose }: UserDashboardProps) {
                         </div>
                         <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
                           <span>{formatDistance(file.total_distance || 0)}</span>
+                          {file.total_ascent != null && <span>{Math.round(file.total_ascent)}m ascent</span>}
+                          {file.moving_time != null && <span>{formatDuration(file.moving_time)} moving</span>}
+                          {file.moving_time && file.total_distance ? (
+                            <span>{formatSpeed(file.total_distance / file.moving_time)}</span>
+                          ) : null}
                           <span>{file.total_points} points</span>
                           <span>{new Date(file.created_at).toLocaleDateString()}</span>
                         </div>
@@ -1,20 +1,105 @@
-import { useState, useCallback } from 'react';
-import { GPXData, StreetViewImage, ProcessingProgress, AppSettings } from '../types';
-import { generateStreetViewPlaceholders } from '../lib/street-view-api';
+import { useState, useCallback, useRef } from 'react';
+import { GPXData, GPXSource, StreetViewImage, ProcessingProgress, SamplingOptions, Cue, ElevationStats, Climb, RouteSimplification } from '../types';
+import { getSourceSegments } from '../lib/gpx-parser';
+import { detectFileImporter, importRouteFile } from '../lib/importers';
+import type { ImportResult } from '../lib/importers';
+import { runGPXWorkerTask, isAbortError } from '../lib/gpx-worker-client';
+import { checkStreetViewCoverage, findNearestImage } from '../lib/street-view-api';
+import { removeDuplicatePanoramas, summarizeCoverage } from '../lib/coverage';
+import type { ImageryProvider, ImagerySearchOptions } from '../lib/imagery';
+
+// The provider to check coverage with, and how to search it
+export interface ImageryCheck {
+  provider: ImageryProvider;
+  options: ImagerySearchOptions;
+}
 
 export function useStreetViewProcessor() {
   const [images, setImages] = useState<StreetViewImage[]>([]);
+  const [cues, setCues] = useState<Cue[]>([]);
+  const [elevationStats, setElevationStats] = useState<ElevationStats | null>(null);
+  const [climbs, setClimbs] = useState<Climb[]>([]);
+  const [simplification, setSimplification] = useState<RouteSimplification | null>(null);
   const [progress, setProgress] = useState<ProcessingProgress | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const progressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Start a new cancellable task, aborting any task still running
+  const startTask = useCallback(() => {
+    abortControllerRef.current?.abort();
+    if (progressTimerRef.current) clearTimeout(progressTimerRef.current);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller;
+  }, []);
+
+  // Leave a finished task's progress on screen briefly, unless another task has replaced it
+  const clearProgressLater = useCallback((controller: AbortController) => {
+    progressTimerRef.current = setTimeout(() => {
+      if (abortControllerRef.current === controller) {
+        setProgress(null);
+      }
+    }, 2000);
+  }, []);
+
+  const importFile = useCallback(async (file: File): Promise<ImportResult | null> => {
+    const controller = startTask();
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      setProgress({
+        current: 0,
+        total: 100,
+        stage: 'parsing',
+        message: `Reading ${file.name}...`
+      });
+
+      const importer = await detectFileImporter(file);
+
+      // GPX files can be very large, so they are streamed through the worker.
+      // The other formats rely on DOMParser/JSZip and are imported on the main thread.
+      if (importer?.format === 'gpx') {
+        const data = await runGPXWorkerTask(
+          { type: 'parse-gpx', file },
+          setProgress,
+          controller.signal
+        );
+        return { data, format: 'gpx' };
+      }
+
+      const result = await importRouteFile(file);
+      if (controller.signal.aborted) return null;
+      return result;
+    } catch (err) {
+      if (!isAbortError(err) && abortControllerRef.current === controller) {
+        setError(err instanceof Error ? err.message : 'Failed to parse route file');
+      }
+      return null;
+    } finally {
+      if (abortControllerRef.current === controller) {
+        setProgress(null);
+        setIsProcessing(false);
+      }
+    }
+  }, [startTask]);
 
   const processGPXData = useCallback(async (
     gpxData: GPXData,
-    intervalDistance: number
+    sampling: SamplingOptions,
+    source?: GPXSource,
+    imagery?: ImageryCheck // when given, coverage is checked before any image is loaded
   ) => {
+    const controller = startTask();
     setIsProcessing(true);
     setError(null);
     setImages([]);
+    setCues([]);
+    setElevationStats(null);
+    setClimbs([]);
+    setSimplification(null);
 
     try {
       // Stage 1: Parse GPX and extract points
@@ -25,14 +110,15 @@ export function useStreetViewProcessor() {
         message: 'Extracting route points from GPX data...'
       });
 
-      // Get all points from all tracks
-      const allPoints = gpxData.tracks.flatMap(track => track.points);
-      
-      if (allPoints.length < 2) {
-        throw new Error('GPX file must contain at least 2 track points');
+      // Get segments from the selected track or route
+      const segments = getSourceSegments(gpxData, source);
+      const pointCount = segments.reduce((sum, segment) => sum + segment.length, 0);
+
+      if (pointCount < 2) {
+        throw new Error('The selected track or route must contain at least 2 points');
       }
 
-      // Stage 2: Generate Street View placeholders (no API calls)
+      // Stage 2: Simplify the line and generate Street View placeholders (no API calls) in the worker
       setProgress({
         current: 0,
         total: 0,
@@ -40,60 +126,179 @@ export function useStreetViewProcessor() {
         message: 'Generating Street View placeholders...'
       });
 
-      const streetViewImages = await generateStreetViewPlaceholders(
-        allPoints,
-        intervalDistance,
-        (current, total) => {
-          setProgress({
-            current,
-            total,
-            stage: 'generating',
-            message: `Generating placeholders (${current}/${total})...`
-          });
-        }
+      const { images: streetViewImages, cues: routeCues, elevation, climbs: routeClimbs, route } = await runGPXWorkerTask(
+        { type: 'generate', segments, sampling: { ...sampling, waypoints: gpxData.waypoints } },
+        setProgress,
+        controller.signal
       );
 
       if (streetViewImages.length === 0) {
         throw new Error('No Street View placeholders could be generated from the route');
       }
 
+      // Stage 3: Check coverage with free metadata requests, so frames without imagery are never
+      // loaded and frames showing the same panorama are only loaded once
+      let checked = { images: streetViewImages, cues: routeCues, removed: 0 };
+      let coverageError: string | null = null;
+      if (imagery) {
+        try {
+          checked = await runCoverageCheck(streetViewImages, routeCues, imagery, setProgress, controller.signal);
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          coverageError = `Could not check ${imagery.provider.label} coverage: ${err instanceof Error ? err.message : err}`;
+        }
+      }
+      const coverage = summarizeCoverage(checked.images).percentage;
+
       // Complete - no preloading, images load on demand
       setProgress({
-        current: streetViewImages.length,
-        total: streetViewImages.length,
+        current: checked.images.length,
+        total: checked.images.length,
         stage: 'complete',
-        message: `Generated ${streetViewImages.length} Street View points - images will load on demand`
+        message: coverage === null
+          ? `Generated ${checked.images.length} Street View points - images will load on demand`
+          : `Generated ${checked.images.length} Street View points - ${Math.round(coverage)}% have ${imagery!.provider.label} imagery`,
+        duplicatesRemoved: checked.removed
       });
 
-      setImages(streetViewImages);
+      setImages(checked.images);
+      setError(coverageError);
+      setCues(checked.cues);
+      setElevationStats(elevation);
+      setClimbs(routeClimbs);
+      setSimplification(route);
 
-      // Clear progress after a short delay
-      setTimeout(() => {
+      clearProgressLater(controller);
+    } catch (err) {
+      // An aborted task must not clear the progress or report errors of the task that replaced it
+      if (abortControllerRef.current === controller) {
+        if (!isAbortError(err)) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to process GPX data';
+          setError(errorMessage);
+        }
         setProgress(null);
-      }, 2000);
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        setIsProcessing(false);
+      }
+    }
+  }, [startTask, clearProgressLater]);
+
+  // Check coverage of frames generated without an API key, e.g. when the key is added later
+  const checkCoverage = useCallback(async (imagery: ImageryCheck) => {
+    const controller = startTask();
+    setIsProcessing(true);
+    setError(null);
 
+    try {
+      const checked = await runCoverageCheck(images, cues, imagery, setProgress, controller.signal);
+      setProgress({
+        current: checked.images.length,
+        total: checked.images.length,
+        stage: 'complete',
+        message: `${Math.round(summarizeCoverage(checked.images).percentage ?? 0)}% of the points have ${imagery.provider.label} imagery`,
+        duplicatesRemoved: checked.removed
+      });
+      setImages(checked.images);
+      setCues(checked.cues);
+
+      clearProgressLater(controller);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to process GPX data';
-      setError(errorMessage);
-      setProgress(null);
+      if (abortControllerRef.current === controller) {
+        if (!isAbortError(err)) {
+          setError(`Could not check ${imagery.provider.label} coverage: ${err instanceof Error ? err.message : err}`);
+        }
+        setProgress(null);
+      }
     } finally {
-      setIsProcessing(false);
+      if (abortControllerRef.current === controller) {
+        setIsProcessing(false);
+      }
     }
+  }, [startTask, clearProgressLater, images, cues]);
+
+  // Manually point a frame's camera, or clear the override with `undefined`.
+  // A frame pointed manually loads its own image instead of reusing an earlier lap's.
+  const setHeadingOverride = useCallback((imageId: string, heading: number | undefined) => {
+    setImages(prev => prev.map(image =>
+      image.id === imageId ? { ...image, headingOverride: heading, reusedFrom: undefined } : image
+    ));
   }, []);
 
-  const reset = useCallback(() => {
-    setImages([]);
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    if (progressTimerRef.current) clearTimeout(progressTimerRef.current);
     setProgress(null);
     setIsProcessing(false);
-    setError(null);
   }, []);
 
+  const reset = useCallback(() => {
+    cancel();
+    setImages([]);
+    setCues([]);
+    setElevationStats(null);
+    setClimbs([]);
+    setSimplification(null);
+    setError(null);
+  }, [cancel]);
+
   return {
     images,
+    cues,
+    elevationStats,
+    climbs,
+    simplification,
     progress,
     isProcessing,
     error,
+    importFile,
     processGPXData,
+    checkCoverage,
+    setHeadingOverride,
+    cancel,
     reset
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Look up the imagery for every frame, reporting progress as it comes in, then drop
+ * frames that show the same panorama as their neighbour. Cues move to the nearest remaining frame.
+ * Frames that reuse an earlier frame's panorama take its result rather than being looked up.
+ */
+async function runCoverageCheck(
+  frames: StreetViewImage[],
+  cues: Cue[],
+  { provider, options }: ImageryCheck,
+  setProgress: (progress: ProcessingProgress) => void,
+  signal: AbortSignal
+): Promise<{ images: StreetViewImage[]; cues: Cue[]; removed: number }> {
+  const report = (checked: number, total: number) => setProgress({
+    current: checked,
+    total,
+    stage: 'checking',
+    message: provider.costPerCheck === 0
+      ? `Checking ${provider.label} coverage (these lookups are free)...`
+      : `Checking ${provider.label} coverage...`
+  });
+
+  // Providers that cannot aim their images load return legs separately, so those are looked up too
+  const reusesPanorama = (frame: StreetViewImage) =>
+    !!frame.reusedFrom && (frame.overlap?.direction === 'same' || provider.canAim);
+  const lookups = frames.filter(frame => !reusesPanorama(frame));
+  report(0, lookups.length);
+  const found = new Map((await checkStreetViewCoverage(lookups, provider, options, report, signal))
+    .map(frame => [frame.id, frame]));
+  const checked = frames.map(frame => {
+    const source = reusesPanorama(frame) ? found.get(frame.reusedFrom!) : undefined;
+    return source ? { ...frame, metadata: source.metadata, snap: source.snap } : found.get(frame.id) ?? frame;
+  });
+  const { images, removed } = removeDuplicatePanoramas(checked);
+
+  return {
+    images,
+    cues: removed > 0 ? cues.map(cue => ({ ...cue, frameIndex: findNearestImage(images, cue.distance) })) : cues,
+    removed
+  };
+}
@@ -0,0 +1,145 @@
+import type { Climb, ClimbCategory, GPXPoint, StreetViewImage } from '../types';
+import { getElevationProfile, getMaxGradient } from './elevation';
+import type { ElevationPoint } from './elevation';
+
+// A climb ends once the road drops this far below its highest point so far...
+const MIN_CLIMB_DROP = 10; // meters
+// ...or this fraction of the elevation gained, whichever is larger
+const MAX_CLIMB_DROP_RATIO = 0.2;
+const MIN_CLIMB_LENGTH = 500; // meters
+const MIN_CLIMB_GRADIENT = 3; // percent
+
+// Minimum climb score (length in meters × average gradient in percent) for each category
+const CATEGORY_SCORES: Array<[ClimbCategory, number]> = [
+  ['HC', 80000],
+  ['1', 64000],
+  ['2', 32000],
+  ['3', 16000],
+  ['4', 8000]
+];
+
+// Gradients are averaged over this distance when colouring the route
+const COLOR_GRADIENT_DISTANCE = 100; // meters
+
+/**
+ * Find categorised climbs in the route's smoothed elevation profile
+ */
+export function detectClimbs(segments: GPXPoint[][]): Climb[] {
+  return getElevationProfile(segments).flatMap(findClimbs);
+}
+
+function findClimbs(profile: ElevationPoint[]): Climb[] {
+  const climbs: Climb[] = [];
+  let start = 0;
+  let top = 0;
+
+  for (let i = 1; i < profile.length; i++) {
+    const point = profile[i];
+
+    // Dropping below the start wipes out any gain, so the climb can only start from here
+    if (point.ele <= profile[start].ele) {
+      start = i;
+      top = i;
+      continue;
+    }
+
+    if (point.ele > profile[top].ele) {
+      top = i;
+    }
+
+    const gain = profile[top].ele - profile[start].ele;
+    const drop = profile[top].ele - point.ele;
+    const isLast = i === profile.length - 1;
+
+    if (drop > Math.max(MIN_CLIMB_DROP, gain * MAX_CLIMB_DROP_RATIO) || isLast) {
+      const climb = describeClimb(profile, start, top);
+      if (climb) climbs.push(climb);
+
+      start = i;
+      top = i;
+    }
+  }
+
+  return climbs;
+}
+
+/**
+ * Build a climb from `profile[start..top]`, or null if it is too short, flat or small to categorise
+ */
+function describeClimb(profile: ElevationPoint[], start: number, top: number): Climb | null {
+  const length = profile[top].distance - profile[start].distance;
+  const elevationGain = profile[top].ele - profile[start].ele;
+  if (length < MIN_CLIMB_LENGTH) return null;
+
+  const averageGradient = (elevationGain / length) * 100;
+  if (averageGradient < MIN_CLIMB_GRADIENT) return null;
+
+  const score = length * averageGradient;
+  const category = CATEGORY_SCORES.find(([, minScore]) => score >= minScore)?.[0];
+  if (!category) return null;
+
+  return {
+    startDistance: profile[start].distance,
+    endDistance: profile[top].distance,
+    length,
+    elevationGain,
+    averageGradient,
+    maxGradient: Math.max(averageGradient, getMaxGradient(profile, start, top)),
+    category
+  };
+}
+
+/**
+ * Gradient (percent) of the stretch from each image to the next, averaged over
+ * COLOR_GRADIENT_DISTANCE. Stretches without elevation data, or across segment gaps, are null.
+ */
+export function getImageGradients(images: StreetViewImage[]): Array<number | null> {
+  return images.slice(0, -1).map((image, index) => {
+    const next = images[index + 1];
+    if (image.elevation === undefined || next.elevation === undefined || image.segmentIndex !== next.segmentIndex) {
+      return null;
+    }
+
+    // Widen the stretch around its midpoint until it covers COLOR_GRADIENT_DISTANCE
+    const middle = (image.distance + next.distance) / 2;
+    const halfWindow = COLOR_GRADIENT_DISTANCE / 2;
+    let from = index;
+    let to = index + 1;
+    while (canExtend(images, from, from - 1) && middle - images[from].distance < halfWindow) {
+      from--;
+    }
+    while (canExtend(images, to, to + 1) && images[to].distance - middle < halfWindow) {
+      to++;
+    }
+
+    const run = images[to].distance - images[from].distance;
+    return run > 0 ? ((images[to].elevation! - images[from].elevation!) / run) * 100 : 0;
+  });
+}
+
+function canExtend(images: StreetViewImage[], from: number, to: number): boolean {
+  const image = images[to];
+  return image !== undefined &&
+    image.elevation !== undefined &&
+    image.segmentIndex === images[from].segmentIndex;
+}
+
+/**
+ * Map colour for a gradient, from blue descents through green flats to dark red walls
+ */
+export function getGradientColor(gradient: number | null): string {
+  if (gradient === null) return '#3b82f6';
+  if (gradient < -3) return '#60a5fa';
+  if (gradient < 3) return '#22c55e';
+  if (gradient < 6) return '#eab308';
+  if (gradient < 9) return '#f97316';
+  if (gradient < 12) return '#ef4444';
+  return '#7f1d1d';
+}
+
+/**
+ * Short label for a climb category, e.g. "Cat 2" or "HC"
+ */
+export function formatClimbCategory(category: ClimbCategory): string {
+  return category === 'HC' ? 'HC' : `Cat ${category}`;
+}
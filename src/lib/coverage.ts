@@ -0,0 +1,127 @@
+import type { StreetViewImage } from '../types';
+import { angleDifference, calculateBearing, calculateDistance } from './utils';
+
+// Frames closer together than this have no meaningful direction between them
+const MIN_RUN_LENGTH = 1; // meters
+
+export type CoverageStatus = 'covered' | 'missing' | 'unchecked';
+
+export const COVERAGE_LABELS: Record<CoverageStatus, string> = {
+  covered: 'Street View imagery',
+  missing: 'No imagery',
+  unchecked: 'Not checked'
+};
+
+export const COVERAGE_COLORS: Record<CoverageStatus, string> = {
+  covered: '#22c55e',
+  missing: '#ef4444',
+  unchecked: '#6b7280'
+};
+
+export interface CoverageSummary {
+  checked: number;
+  covered: number;
+  percentage: number | null; // null until frames have been checked
+  oldestDate?: string;
+  newestDate?: string;
+}
+
+/**
+ * Whether the coverage check found a panorama for a frame
+ */
+export function getCoverageStatus(image: StreetViewImage): CoverageStatus {
+  if (!image.metadata) return 'unchecked';
+  return image.metadata.status === 'OK' ? 'covered' : 'missing';
+}
+
+/**
+ * Share of the checked frames with imagery, and the range of capture dates
+ */
+export function summarizeCoverage(images: StreetViewImage[]): CoverageSummary {
+  const checked = images.filter(image => image.metadata);
+  const covered = checked.filter(image => image.metadata!.status === 'OK');
+  // Capture dates are "YYYY-MM", so they sort as strings
+  const dates = covered
+    .map(image => image.metadata!.date)
+    .filter((date): date is string => !!date)
+    .sort();
+
+  return {
+    checked: checked.length,
+    covered: covered.length,
+    percentage: checked.length > 0 ? (covered.length / checked.length) * 100 : null,
+    oldestDate: dates[0],
+    newestDate: dates[dates.length - 1]
+  };
+}
+
+/**
+ * Collapse runs of neighbouring frames that resolve to the same panorama into one frame, so the
+ * same image is not paid for twice. The frame kept is the one facing closest to the direction of
+ * the route across the run; waypoint frames are always kept. Frames that reused or overlapped a
+ * removed frame point at the frame kept in its place.
+ */
+export function removeDuplicatePanoramas(images: StreetViewImage[]): { images: StreetViewImage[]; removed: number } {
+  const replacements = new Map<string, string>();
+  const kept: StreetViewImage[] = [];
+
+  let start = 0;
+  while (start < images.length) {
+    const panoId = images[start].metadata?.panoId;
+    let end = start;
+    while (
+      panoId &&
+      end + 1 < images.length &&
+      images[end + 1].metadata?.panoId === panoId &&
+      images[end + 1].segmentIndex === images[start].segmentIndex
+    ) {
+      end++;
+    }
+
+    const run = images.slice(start, end + 1);
+    const waypoints = run.filter(image => image.waypoint);
+    const keep = waypoints.length > 0 ? waypoints : [getBestAlignedFrame(run)];
+    run.forEach(image => {
+      if (keep.includes(image)) return;
+      const nearest = keep.reduce((best, other) =>
+        Math.abs(other.distance - image.distance) < Math.abs(best.distance - image.distance) ? other : best
+      );
+      replacements.set(image.id, nearest.id);
+    });
+    kept.push(...keep);
+
+    start = end + 1;
+  }
+
+  if (replacements.size === 0) {
+    return { images, removed: 0 };
+  }
+
+  return {
+    images: kept.map(image => {
+      const reusedFrom = image.reusedFrom && (replacements.get(image.reusedFrom) ?? image.reusedFrom);
+      const overlap = image.overlap && {
+        ...image.overlap,
+        imageId: replacements.get(image.overlap.imageId) ?? image.overlap.imageId
+      };
+      return { ...image, reusedFrom, overlap };
+    }),
+    removed: replacements.size
+  };
+}
+
+/**
+ * The frame of a run whose heading is closest to the bearing from the first frame to the last
+ */
+function getBestAlignedFrame(run: StreetViewImage[]): StreetViewImage {
+  const first = run[0];
+  const last = run[run.length - 1];
+  const length = calculateDistance(first.coordinates.lat, first.coordinates.lng, last.coordinates.lat, last.coordinates.lng);
+  if (length < MIN_RUN_LENGTH) return first;
+
+  const bearing = calculateBearing(first.coordinates.lat, first.coordinates.lng, last.coordinates.lat, last.coordinates.lng);
+  const misalignment = (image: StreetViewImage) =>
+    image.heading === undefined ? Infinity : Math.abs(angleDifference(image.heading, bearing));
+
+  return run.reduce((best, image) => misalignment(image) < misalignment(best) ? image : best);
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { Cue, GPXPoint } from '../types';
+import { formatCue, generateCueSheet, generateCueSheetCSV, generateCueSheetText } from './cue-sheet';
+import { generateStreetViewPlaceholders } from './street-view-api';
+
+const STEP = 0.0005; // degrees, ~35-55 m at this latitude
+
+// Walk `count` steps from the last point of `points` in a compass direction
+function walk(points: GPXPoint[], direction: 'north' | 'south' | 'east' | 'west', count: number): GPXPoint[] {
+  const [dLat, dLon] = { north: [STEP, 0], south: [-STEP, 0], east: [0, STEP], west: [0, -STEP] }[direction];
+  const result = [...points];
+  for (let i = 0; i < count; i++) {
+    const last = result[result.length - 1];
+    result.push({ lat: last.lat + dLat, lon: last.lon + dLon });
+  }
+  return result;
+}
+
+const START: GPXPoint[] = [{ lat: 51, lon: 0.1 }];
+
+async function cuesFor(points: GPXPoint[]) {
+  const images = await generateStreetViewPlaceholders([points], {
+    mode: 'interval',
+    intervalDistance: 100,
+    creditBudget: 500,
+    timeInterval: 30,
+    minStopDuration: 60,
+    headingLookAhead: 30,
+    simplifyTolerance: 0,
+    simplifyMethod: 'rdp'
+  });
+  return { cues: generateCueSheet([points], images), images };
+}
+
+describe('generateCueSheet', () => {
+  it('finds nothing on a straight route', async () => {
+    const { cues } = await cuesFor(walk(START, 'north', 20));
+
+    expect(cues).toEqual([]);
+  });
+
+  it('detects a right turn and a left turn in order', async () => {
+    const route = walk(walk(walk(START, 'north', 10), 'east', 10), 'north', 10);
+    const { cues } = await cuesFor(route);
+
+    expect(cues.map(cue => cue.direction)).toEqual(['right', 'left']);
+    expect(cues[0].angle).toBeGreaterThan(80);
+    expect(cues[1].angle).toBeLessThan(-80);
+    expect(cues[0].distance).toBeLessThan(cues[1].distance);
+  });
+
+  it('detects a U-turn', async () => {
+    const route = walk(walk(walk(START, 'north', 10), 'east', 1), 'south', 10);
+    const { cues } = await cuesFor(route);
+
+    expect(cues.map(cue => cue.direction)).toEqual(['u-turn']);
+  });
+
+  it('links each cue to the frame nearest to it', async () => {
+    const route = walk(walk(START, 'north', 10), 'east', 10);
+    const { cues, images } = await cuesFor(route);
+    const offset = (index: number) => Math.abs(images[index].distance - cues[0].distance);
+    const nearest = images.reduce((best, _image, index) => offset(index) < offset(best) ? index : best, 0);
+
+    expect(cues[0].frameIndex).toBe(nearest);
+  });
+});
+
+describe('cue sheet export', () => {
+  const cues: Cue[] = [
+    { distance: 550, direction: 'right', angle: 90, coordinates: { lat: 51.005, lng: 0.1 }, frameIndex: 5 },
+    {
+      distance: 1200,
+      direction: 'roundabout',
+      angle: -10,
+      coordinates: { lat: 51.005, lng: 0.11 },
+      frameIndex: 12
+    }
+  ];
+
+  it('formats cues with their angle, except roundabouts', () => {
+    expect(formatCue(cues[0])).toBe('Turn right (90°)');
+    expect(formatCue(cues[1])).toBe('Roundabout');
+  });
+
+  it('numbers frames from one in the CSV', () => {
+    const lines = generateCueSheetCSV(cues).trim().split('\n');
+
+    expect(lines[0]).toBe('#,distance_km,direction,instruction,angle,lat,lng,frame');
+    expect(lines[1]).toBe('1,0.550,right,Turn right,90,51.005000,0.100000,6');
+    expect(lines[2].endsWith(',13')).toBe(true);
+  });
+
+  it('lists the leg since the previous cue in the text sheet', () => {
+    const text = generateCueSheetText(cues, 'Morning ride');
+
+    expect(text.startsWith('Cue Sheet - Morning ride')).toBe(true);
+    expect(text).toMatch(/^2\s+1\.2km\s+650m\s+Roundabout\s+13$/m);
+  });
+});
@@ -0,0 +1,178 @@
+import type { Cue, GPXPoint, StreetViewImage, TurnDirection } from '../types';
+import { sampleRoute, findNearestImage } from './street-view-api';
+import type { RouteSample } from './street-view-api';
+import { angleDifference, formatDistance } from './utils';
+
+// The route is examined with samples this far apart
+const SAMPLE_SPACING = 10; // meters
+// Distance before and after a sample over which its change of direction is measured
+const TURN_WINDOW = 20; // meters
+// Change of direction over the window above which the route is considered to be turning
+const TURNING_THRESHOLD = 25; // degrees
+// Turning stretches closer together than this are treated as a single manoeuvre
+const MERGE_DISTANCE = 30; // meters
+// Net changes of direction smaller than this are not worth a cue
+const MIN_CUE_ANGLE = 30; // degrees
+// A manoeuvre that circles this far in one direction, well beyond its net turn, is a roundabout
+const ROUNDABOUT_ROTATION = 180; // degrees
+const ROUNDABOUT_MAX_LENGTH = 200; // meters
+
+export const TURN_LABELS: Record<TurnDirection, string> = {
+  'slight-left': 'Bear left',
+  'left': 'Turn left',
+  'sharp-left': 'Sharp left',
+  'slight-right': 'Bear right',
+  'right': 'Turn right',
+  'sharp-right': 'Sharp right',
+  'u-turn': 'U-turn',
+  'roundabout': 'Roundabout'
+};
+
+/**
+ * Detect turns, U-turns and roundabouts along the route and link each to the nearest image
+ */
+export function generateCueSheet(segments: GPXPoint[][], images: StreetViewImage[]): Cue[] {
+  return sampleRoute(segments, SAMPLE_SPACING).flatMap(samples =>
+    findTurningStretches(samples).flatMap(([start, end]) => {
+      const cue = describeManoeuvre(samples, start, end);
+      return cue ? [{ ...cue, frameIndex: findNearestImage(images, cue.distance) }] : [];
+    })
+  );
+}
+
+/**
+ * Find [start, end] index ranges where the direction of travel is changing
+ */
+function findTurningStretches(samples: RouteSample[]): Array<[number, number]> {
+  const window = Math.max(1, Math.round(TURN_WINDOW / SAMPLE_SPACING));
+  const stretches: Array<[number, number]> = [];
+
+  for (let i = window; i < samples.length - window; i++) {
+    if (Math.abs(getWindowChange(samples, i, window)) < TURNING_THRESHOLD) continue;
+
+    const last = stretches[stretches.length - 1];
+    if (last && samples[i].distance - samples[last[1]].distance <= MERGE_DISTANCE) {
+      last[1] = i;
+    } else {
+      stretches.push([i, i]);
+    }
+  }
+
+  return stretches;
+}
+
+/**
+ * Classify a turning stretch, or return null if the route ends up going the same way
+ */
+function describeManoeuvre(
+  samples: RouteSample[],
+  start: number,
+  end: number
+): Omit<Cue, 'frameIndex'> | null {
+  const window = Math.max(1, Math.round(TURN_WINDOW / SAMPLE_SPACING));
+  const before = samples[Math.max(0, start - window)];
+  const after = samples[Math.min(samples.length - 1, end + window)];
+  const angle = angleDifference(before.bearing, after.bearing);
+
+  // Total rotation in each direction, to tell roundabouts from simple turns
+  let rightRotation = 0;
+  let leftRotation = 0;
+  for (let i = Math.max(1, start - window); i <= Math.min(samples.length - 1, end + window); i++) {
+    const step = angleDifference(samples[i - 1].bearing, samples[i].bearing);
+    if (step > 0) {
+      rightRotation += step;
+    } else {
+      leftRotation -= step;
+    }
+  }
+
+  const circling = Math.max(rightRotation, leftRotation);
+  const isRoundabout = circling >= ROUNDABOUT_ROTATION &&
+    circling >= Math.abs(angle) + 90 &&
+    after.distance - before.distance <= ROUNDABOUT_MAX_LENGTH;
+
+  if (!isRoundabout && Math.abs(angle) < MIN_CUE_ANGLE) {
+    return null;
+  }
+
+  // Place the cue where the direction changes fastest
+  let peak = start;
+  for (let i = start + 1; i <= end; i++) {
+    if (Math.abs(getWindowChange(samples, i, window)) > Math.abs(getWindowChange(samples, peak, window))) {
+      peak = i;
+    }
+  }
+
+  return {
+    distance: samples[peak].distance,
+    direction: isRoundabout ? 'roundabout' : classifyTurn(angle),
+    angle: Math.round(angle),
+    coordinates: { lat: samples[peak].lat, lng: samples[peak].lon }
+  };
+}
+
+/**
+ * Change of direction from `window` samples before to `window` samples after a sample
+ */
+function getWindowChange(samples: RouteSample[], index: number, window: number): number {
+  const before = samples[Math.max(0, index - window)];
+  const after = samples[Math.min(samples.length - 1, index + window)];
+  return angleDifference(before.bearing, after.bearing);
+}
+
+function classifyTurn(angle: number): TurnDirection {
+  const magnitude = Math.abs(angle);
+  if (magnitude >= 155) return 'u-turn';
+
+  const side = angle > 0 ? 'right' : 'left';
+  if (magnitude < 60) return `slight-${side}`;
+  if (magnitude < 120) return side;
+  return `sharp-${side}`;
+}
+
+/**
+ * Describe a cue for display, e.g. "Turn left (92°)"
+ */
+export function formatCue(cue: Cue): string {
+  return cue.direction === 'roundabout'
+    ? TURN_LABELS[cue.direction]
+    : `${TURN_LABELS[cue.direction]} (${Math.abs(cue.angle)}°)`;
+}
+
+/**
+ * Cue sheet as CSV, one row per cue
+ */
+export function generateCueSheetCSV(cues: Cue[]): string {
+  const rows = cues.map((cue, index) => [
+    index + 1,
+    (cue.distance / 1000).toFixed(3),
+    cue.direction,
+    TURN_LABELS[cue.direction],
+    cue.angle,
+    cue.coordinates.lat.toFixed(6),
+    cue.coordinates.lng.toFixed(6),
+    cue.frameIndex + 1
+  ].join(','));
+
+  return ['#,distance_km,direction,instruction,angle,lat,lng,frame', ...rows].join('\n') + '\n';
+}
+
+/**
+ * Printable cue sheet with the distance to each cue and from the previous one
+ */
+export function generateCueSheetText(cues: Cue[], routeName: string): string {
+  let text = `Cue Sheet - ${routeName}\n\n`;
+  text += `${'#'.padEnd(4)}${'At'.padEnd(10)}${'Leg'.padEnd(10)}${'Instruction'.padEnd(24)}Frame\n`;
+  text += `${'-'.repeat(54)}\n`;
+
+  cues.forEach((cue, index) => {
+    const sincePrevious = cue.distance - (index > 0 ? cues[index - 1].distance : 0);
+    text += String(index + 1).padEnd(4);
+    text += formatDistance(cue.distance).padEnd(10);
+    text += formatDistance(sincePrevious).padEnd(10);
+    text += formatCue(cue).padEnd(24);
+    text += `${cue.frameIndex + 1}\n`;
+  });
+
+  return text;
+}
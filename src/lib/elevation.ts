@@ -0,0 +1,109 @@
+import type { ElevationStats, GPXPoint } from '../types';
+import { sampleRoute } from './street-view-api';
+
+export interface ElevationPoint {
+  distance: number; // meters from the start of the route
+  ele: number; // meters
+}
+
+// The route is resampled this often before smoothing
+const PROFILE_SPACING = 10; // meters
+// Elevations are averaged over this distance either side of each sample to suppress GPS noise
+const SMOOTHING_WINDOW = 50; // meters
+// Gradients are measured over stretches of this length
+const GRADIENT_DISTANCE = 100; // meters
+
+/**
+ * Smoothed elevation along the route, one list per segment.
+ * Stretches without elevation data are left out.
+ */
+export function getElevationProfile(segments: GPXPoint[][]): ElevationPoint[][] {
+  return sampleRoute(segments, PROFILE_SPACING)
+    .map(samples => samples
+      .filter(sample => sample.ele !== undefined && !isNaN(sample.ele))
+      .map(sample => ({ distance: sample.distance, ele: sample.ele! }))
+    )
+    .filter(profile => profile.length > 1)
+    .map(smoothProfile);
+}
+
+/**
+ * Total ascent and descent, steepest gradient and elevation range of the route,
+ * or null if it has no elevation data
+ */
+export function calculateElevationStats(segments: GPXPoint[][]): ElevationStats | null {
+  const profiles = getElevationProfile(segments);
+  if (profiles.length === 0) return null;
+
+  const stats: ElevationStats = {
+    ascent: 0,
+    descent: 0,
+    maxGradient: 0,
+    minElevation: Infinity,
+    maxElevation: -Infinity
+  };
+
+  profiles.forEach(profile => {
+    profile.forEach((point, i) => {
+      stats.minElevation = Math.min(stats.minElevation, point.ele);
+      stats.maxElevation = Math.max(stats.maxElevation, point.ele);
+
+      if (i > 0) {
+        const change = point.ele - profile[i - 1].ele;
+        if (change > 0) {
+          stats.ascent += change;
+        } else {
+          stats.descent -= change;
+        }
+      }
+
+    });
+
+    stats.maxGradient = Math.max(stats.maxGradient, getMaxGradient(profile));
+  });
+
+  return stats;
+}
+
+/**
+ * Steepest uphill gradient (percent) over GRADIENT_DISTANCE within `profile[from..to]`
+ */
+export function getMaxGradient(profile: ElevationPoint[], from: number = 0, to: number = profile.length - 1): number {
+  let maxGradient = 0;
+  let end = from;
+
+  for (let i = from; i <= to; i++) {
+    // Gradient from this point to the first point at least GRADIENT_DISTANCE further on
+    while (end < to && profile[end].distance - profile[i].distance < GRADIENT_DISTANCE) {
+      end++;
+    }
+    const run = profile[end].distance - profile[i].distance;
+    if (run >= GRADIENT_DISTANCE) {
+      maxGradient = Math.max(maxGradient, ((profile[end].ele - profile[i].ele) / run) * 100);
+    }
+  }
+
+  return maxGradient;
+}
+
+/**
+ * Moving average of elevation over SMOOTHING_WINDOW either side of each point
+ */
+function smoothProfile(profile: ElevationPoint[]): ElevationPoint[] {
+  let windowStart = 0;
+  let windowEnd = 0;
+  let windowSum = 0;
+
+  return profile.map(point => {
+    while (windowEnd < profile.length && profile[windowEnd].distance <= point.distance + SMOOTHING_WINDOW) {
+      windowSum += profile[windowEnd].ele;
+      windowEnd++;
+    }
+    while (profile[windowStart].distance < point.distance - SMOOTHING_WINDOW) {
+      windowSum -= profile[windowStart].ele;
+      windowStart++;
+    }
+
+    return { distance: point.distance, ele: windowSum / (windowEnd - windowStart) };
+  });
+}
@@ -1,15 +1,21 @@
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import { StreetViewImage, ExportOptions } from '../types';
-import { formatCoordinates, formatDistance } from './utils';
+import { StreetViewImage, ExportOptions, Cue, RouteStats } from '../types';
+import { formatCoordinates, formatDistance, formatDuration } from './utils';
+import { getImageHeading } from './street-view-api';
+import { generateCueSheetCSV, generateCueSheetText } from './cue-sheet';
+import { formatPace, formatSpeed } from './route-stats';
 
 /**
- * Export Street View images as a ZIP file
+ * Export Street View images as a ZIP file. Files are numbered by their frame's position in the
+ * whole route, as the cue sheet and metadata number them, so failed frames leave gaps.
  */
 export async function exportImagesAsZip(
   images: StreetViewImage[],
   options: ExportOptions,
-  routeName: string = 'gpx-route'
+  routeName: string = 'gpx-route',
+  cues: Cue[] = [],
+  routeStats: RouteStats | null = null
 ): Promise<void> {
   const zip = new JSZip();
   const imageFolder = zip.folder('images');
@@ -31,11 +37,8 @@ export async function exportImagesAsZip(
       const response = await fetch(image.url);
       const blob = await response.blob();
       
-      // Generate filename
-      const filename = `${String(i + 1).padStart(3, '0')}_${formatDistance(image.distance)}.jpg`;
-      
       // Add image to ZIP
-      imageFolder.file(filename, blob);
+      imageFolder.file(getImageFilename(image, i), blob);
       
     } catch (error) {
       console.warn(`Failed to add image ${i + 1} to ZIP:`, error);
@@ -44,9 +47,15 @@ export async function exportImagesAsZip(
   
   // Add metadata file if requested
   if (options.includeMetadata) {
-    const metadata = generateMetadata(images, routeName);
+    const metadata = generateMetadata(images, routeName, routeStats);
     zip.file('metadata.json', JSON.stringify(metadata, null, 2));
-    zip.file('route_info.txt', generateRouteInfo(images, routeName));
+    zip.file('route_info.txt', generateRouteInfo(images, routeName, routeStats));
+  }
+  
+  // Add the cue sheet, as CSV for tools and as text for printing
+  if (cues.length > 0) {
+    zip.file('cue_sheet.csv', generateCueSheetCSV(cues));
+    zip.file('cue_sheet.txt', generateCueSheetText(cues, routeName));
   }
   
   // Generate and download ZIP
@@ -60,7 +69,7 @@ export async function exportImagesAsZip(
 }
 
 /**
- * Export individual images
+ * Export individual images, numbered like the ZIP export
  */
 export async function exportIndividualImages(
   images: StreetViewImage[],
@@ -77,8 +86,7 @@ export async function exportIndividualImages(
       const response = await fetch(image.url);
       const blob = await response.blob();
       
-      const filename = `${routeName}_${String(i + 1).padStart(3, '0')}_${formatDistance(image.distance)}.jpg`;
-      saveAs(blob, filename);
+      saveAs(blob, `${routeName}_${getImageFilename(image, i)}`);
       
       // Add small delay to prevent overwhelming the browser
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -89,22 +97,53 @@ export async function exportIndividualImages(
   }
 }
 
+/**
+ * File name of an exported image, from its index in the full list of frames
+ */
+function getImageFilename(image: StreetViewImage, index: number): string {
+  return `${String(index + 1).padStart(3, '0')}_${formatDistance(image.distance)}.jpg`;
+}
+
 /**
  * Generate metadata for export
  */
-function generateMetadata(images: StreetViewImage[], routeName: string) {
+function generateMetadata(images: StreetViewImage[], routeName: string, routeStats: RouteStats | null) {
   return {
     routeName,
     exportDate: new Date().toISOString(),
     totalImages: images.length,
     successfulImages: images.filter(img => img.loaded && !img.error).length,
-    totalDistance: images.length > 0 ? images[images.length - 1].distance : 0,
+    totalDistance: routeStats?.distance ?? (images.length > 0 ? images[images.length - 1].distance : 0),
+    routeStats,
     images: images.map((image, index) => ({
       index: index + 1,
-      filename: `${String(index + 1).padStart(3, '0')}_${formatDistance(image.distance)}.jpg`,
+      // Failed images are not exported
+      filename: image.loaded && !image.error ? getImageFilename(image, index) : undefined,
       coordinates: formatCoordinates(image.coordinates.lat, image.coordinates.lng),
-      heading: image.heading,
+      heading: getImageHeading(image),
+      headingOverridden: image.headingOverride !== undefined,
       distance: image.distance,
+      time: image.time?.toISOString(),
+      elapsedTime: image.elapsedTime,
+      segment: image.segmentIndex + 1,
+      sensors: image.sensors,
+      waypoint: image.waypoint && {
+        name: image.waypoint.name,
+        desc: image.waypoint.desc,
+        sym: image.waypoint.sym,
+        type: image.waypoint.type
+      },
+      // Number of the earlier image this one repeats, when its image was reused
+      reusedFromImage: image.reusedFrom
+        ? images.findIndex(other => other.id === image.reusedFrom) + 1
+        : undefined,
+      panorama: image.metadata && {
+        status: image.metadata.status,
+        panoId: image.metadata.panoId,
+        date: image.metadata.date,
+        location: image.metadata.location,
+        offset: image.snap?.offset // meters from the point on the route
+      },
       loaded: image.loaded,
       error: image.error
     }))
@@ -114,14 +153,34 @@ function generateMetadata(images: StreetViewImage[], routeName: string) {
 /**
  * Generate human-readable route information
  */
-function generateRouteInfo(images: StreetViewImage[], routeName: string): string {
-  const successfulImages = images.filter(img => img.loaded && !img.error);
-  const totalDistance = images.length > 0 ? images[images.length - 1].distance : 0;
+function generateRouteInfo(images: StreetViewImage[], routeName: string, routeStats: RouteStats | null): string {
+  // Numbered within the full list, like the exported files
+  const successfulImages = images
+    .map((image, index) => ({ image, number: index + 1 }))
+    .filter(({ image }) => image.loaded && !image.error);
+  const totalDistance = routeStats?.distance ?? (images.length > 0 ? images[images.length - 1].distance : 0);
   
   let info = `GPX Street View Export - ${routeName}\n`;
   info += `Generated: ${new Date().toLocaleString()}\n\n`;
   info += `Route Statistics:\n`;
   info += `- Total Distance: ${formatDistance(totalDistance)}\n`;
+  if (routeStats) {
+    if (routeStats.ascent !== null && routeStats.descent !== null) {
+      info += `- Ascent / Descent: ${Math.round(routeStats.ascent)}m / ${Math.round(routeStats.descent)}m\n`;
+    }
+    if (routeStats.minElevation !== null && routeStats.maxElevation !== null) {
+      info += `- Elevation: ${Math.round(routeStats.minElevation)}m - ${Math.round(routeStats.maxElevation)}m\n`;
+    }
+    if (routeStats.movingTime !== null) {
+      info += `- Moving Time: ${formatDuration(routeStats.movingTime)}\n`;
+    }
+    if (routeStats.elapsedTime !== null) {
+      info += `- Elapsed Time: ${formatDuration(routeStats.elapsedTime)}\n`;
+    }
+    if (routeStats.averageSpeed !== null && routeStats.averagePace !== null) {
+      info += `- Average Speed: ${formatSpeed(routeStats.averageSpeed)} (${formatPace(routeStats.averagePace)})\n`;
+    }
+  }
   info += `- Total Images: ${images.length}\n`;
   info += `- Successful Images: ${successfulImages.length}\n`;
   info += `- Failed Images: ${images.length - successfulImages.length}\n\n`;
@@ -131,11 +190,11 @@ function generateRouteInfo(images: StreetViewImage[], routeName: string): string
     info += `${'#'.padEnd(4)} ${'Distance'.padEnd(10)} ${'Coordinates'.padEnd(20)} ${'Heading'.padEnd(8)}\n`;
     info += `${'-'.repeat(50)}\n`;
     
-    successfulImages.forEach((image, index) => {
-      const num = String(index + 1).padEnd(4);
+    successfulImages.forEach(({ image, number }) => {
+      const num = String(number).padEnd(4);
       const dist = formatDistance(image.distance).padEnd(10);
       const coords = formatCoordinates(image.coordinates.lat, image.coordinates.lng).padEnd(20);
-      const heading = `${Math.round(image.heading || 0)}°`.padEnd(8);
+      const heading = `${Math.round(getImageHeading(image))}°`.padEnd(8);
       
       info += `${num}${dist}${coords}${heading}\n`;
     });
@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import { getGPXSources, getSourceSegments, parseGPXContent } from './gpx-parser';
+import { GPXStreamParser } from './gpx-stream-parser';
+
+function gpx(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+${body}
+</gpx>`;
+}
+
+const TRACK = `
+  <trk>
+    <name>Morning ride</name>
+    <trkseg>
+      <trkpt lat="51.0" lon="0.1"><ele>20</ele><time>2024-01-01T08:00:00Z</time></trkpt>
+      <trkpt lat="51.001" lon="0.1"><ele>21.5</ele><time>2024-01-01T08:00:10Z</time></trkpt>
+    </trkseg>
+  </trk>`;
+
+const ROUTE = `
+  <rte>
+    <name>Planned loop</name>
+    <rtept lat="52.0" lon="-1.0"/>
+    <rtept lat="52.01" lon="-1.0"/>
+    <rtept lat="52.01" lon="-1.01"/>
+  </rte>`;
+
+describe('parseGPXContent', () => {
+  it('reads track points with elevation and time', () => {
+    const data = parseGPXContent(gpx(TRACK));
+
+    expect(data.tracks).toHaveLength(1);
+    expect(data.tracks[0].name).toBe('Morning ride');
+    expect(data.tracks[0].points[1]).toMatchObject({ lat: 51.001, lon: 0.1, ele: 21.5 });
+    expect(data.tracks[0].points[1].time).toEqual(new Date('2024-01-01T08:00:10Z'));
+  });
+
+  it('reads routes alongside tracks', () => {
+    const data = parseGPXContent(gpx(TRACK + ROUTE));
+
+    expect(data.routes).toHaveLength(1);
+    expect(data.routes[0].name).toBe('Planned loop');
+    expect(data.routes[0].points.map(point => [point.lat, point.lon])).toEqual([[52, -1], [52.01, -1], [52.01, -1.01]]);
+  });
+
+  it('reads a file with only a route', () => {
+    const data = parseGPXContent(gpx(ROUTE));
+
+    expect(data.tracks).toEqual([]);
+    expect(data.routes[0].points).toHaveLength(3);
+  });
+
+  it('rejects content that is not GPX', () => {
+    expect(() => parseGPXContent('<kml></kml>')).toThrow();
+  });
+});
+
+describe('GPX sources', () => {
+  it('lists tracks before routes, named or numbered', () => {
+    const data = parseGPXContent(gpx(TRACK + ROUTE + '<rte><rtept lat="1" lon="1"/><rtept lat="1.1" lon="1"/></rte>'));
+
+    expect(getGPXSources(data)).toEqual([
+      { type: 'track', index: 0, label: 'Morning ride' },
+      { type: 'route', index: 0, label: 'Planned loop' },
+      { type: 'route', index: 1, label: 'Route 2' }
+    ]);
+  });
+
+  it('returns the segments of the chosen source, defaulting to the first track', () => {
+    const data = parseGPXContent(gpx(TRACK + ROUTE));
+
+    expect(getSourceSegments(data)).toBe(data.tracks[0].segments);
+    expect(getSourceSegments(data, { type: 'route', index: 0 })).toEqual([data.routes[0].points]);
+    expect(getSourceSegments(data, { type: 'route', index: 5 })).toEqual([]);
+  });
+
+  it('falls back to the first route when there are no tracks', () => {
+    const data = parseGPXContent(gpx(ROUTE));
+
+    expect(getSourceSegments(data)).toEqual([data.routes[0].points]);
+  });
+});
+
+describe('track segments', () => {
+  it('keeps each <trkseg> as a segment, with all points joined', () => {
+    const data = parseGPXContent(gpx(`
+      <trk>
+        <trkseg><trkpt lat="51" lon="0.1"/><trkpt lat="51.001" lon="0.1"/></trkseg>
+        <trkseg><trkpt lat="51.1" lon="0.1"/><trkpt lat="51.101" lon="0.1"/><trkpt lat="51.102" lon="0.1"/></trkseg>
+      </trk>`));
+
+    expect(data.tracks[0].segments.map(segment => segment.length)).toEqual([2, 3]);
+    expect(data.tracks[0].points).toEqual(data.tracks[0].segments.flat());
+    expect(getSourceSegments(data)).toHaveLength(2);
+  });
+});
+
+describe('sensor extensions', () => {
+  it('reads Garmin TrackPointExtension and power values from track points', () => {
+    const data = parseGPXContent(gpx(`
+      <trk><trkseg>
+        <trkpt lat="51" lon="0.1">
+          <extensions>
+            <power>250</power>
+            <gpxtpx:TrackPointExtension xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+              <gpxtpx:atemp>18.5</gpxtpx:atemp>
+              <gpxtpx:hr>142</gpxtpx:hr>
+              <gpxtpx:cad>88</gpxtpx:cad>
+            </gpxtpx:TrackPointExtension>
+          </extensions>
+        </trkpt>
+        <trkpt lat="51.001" lon="0.1"/>
+      </trkseg></trk>`));
+
+    expect(data.tracks[0].points[0].sensors).toEqual({ hr: 142, cad: 88, atemp: 18.5, power: 250 });
+    expect(data.tracks[0].points[1].sensors).toBeUndefined();
+  });
+
+  it('ignores unknown extensions and values that are not numbers', () => {
+    const data = parseGPXContent(gpx(`
+      <trk><trkseg>
+        <trkpt lat="51" lon="0.1"><extensions><hr>n/a</hr><surface>gravel</surface></extensions></trkpt>
+      </trkseg></trk>`));
+
+    expect(data.tracks[0].points[0].sensors).toBeUndefined();
+  });
+});
+
+describe('GPXStreamParser', () => {
+  it('gives the same result however the content is split into chunks', () => {
+    const content = gpx(TRACK + ROUTE);
+    const whole = parseGPXContent(content);
+
+    [1, 7, 64].forEach(size => {
+      const parser = new GPXStreamParser();
+      for (let i = 0; i < content.length; i += size) {
+        parser.write(content.slice(i, i + size));
+      }
+      expect(parser.end()).toEqual(whole);
+    });
+  });
+
+  it('decodes entities and skips comments', () => {
+    const data = parseGPXContent(gpx(`
+      <!-- exported <trk> -->
+      <trk><name>Tom &amp; Jerry&#39;s &#x41;&lt;B&gt; &unknown;</name>
+        <trkseg><trkpt lat="51" lon="0.1"/><trkpt lat="51.001" lon="0.1"/></trkseg>
+      </trk>`));
+
+    expect(data.tracks[0].name).toBe("Tom & Jerry's A<B> &unknown;");
+  });
+
+  it('reports points without coordinates with their line number', () => {
+    const data = parseGPXContent(gpx(`<trk><trkseg>
+      <trkpt lat="51" lon="0.1"/>
+      <trkpt lat="north" lon="0.1"/>
+      <trkpt lat="51.001" lon="0.1"/>
+    </trkseg></trk>`));
+
+    expect(data.tracks[0].points).toHaveLength(2);
+    expect(data.issues).toEqual([
+      expect.objectContaining({ type: 'missing-coordinates', line: 5 })
+    ]);
+  });
+
+  it('rejects truncated files', () => {
+    const content = gpx(TRACK);
+
+    expect(() => parseGPXContent(content.slice(0, content.length - 20))).toThrow('unexpected end of file');
+  });
+});
+
+describe('waypoints', () => {
+  it('reads waypoints with their name, description, symbol and type', () => {
+    const data = parseGPXContent(gpx(`
+      <wpt lat="51.0005" lon="0.1">
+        <ele>35</ele>
+        <name>Fountain</name>
+        <desc>Turn off behind the church</desc>
+        <sym>Drinking Water</sym>
+        <type>water</type>
+      </wpt>
+      ${TRACK}`));
+
+    expect(data.waypoints).toHaveLength(1);
+    expect(data.waypoints![0]).toMatchObject({
+      lat: 51.0005,
+      lon: 0.1,
+      ele: 35,
+      name: 'Fountain',
+      desc: 'Turn off behind the church',
+      sym: 'Drinking Water',
+      type: 'water'
+    });
+    // The waypoint's <name> does not rename the track
+    expect(data.tracks[0].name).toBe('Morning ride');
+  });
+});
@@ -1,4 +1,5 @@
-import { GPXData, GPXPoint, GPXTrack } from '../types';
+import { GPXData, GPXPoint, GPXSource } from '../types';
+import { GPXStreamParser } from './gpx-stream-parser';
 
 /**
  * Parse GPX file content and extract track data
@@ -28,128 +29,47 @@ export async function parseGPXFile(file: File): Promise<GPXData> {
 /**
  * Parse GPX XML content
  */
-function parseGPXContent(xmlContent: string): GPXData {
-  const parser = new DOMParser();
-  const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
-  
-  // Check for parsing errors
-  const parserError = xmlDoc.querySelector('parsererror');
-  if (parserError) {
-    throw new Error('Invalid XML format');
-  }
-  
-  const gpxElement = xmlDoc.querySelector('gpx');
-  if (!gpxElement) {
-    throw new Error('Invalid GPX format: missing gpx element');
-  }
-  
-  // Extract metadata
-  const metadata = extractMetadata(xmlDoc);
-  
-  // Extract tracks
-  const tracks = extractTracks(xmlDoc);
-  
-  // Extract waypoints
-  const waypoints = extractWaypoints(xmlDoc);
-  
-  if (tracks.length === 0) {
-    throw new Error('No tracks found in GPX file');
-  }
-  
-  return {
-    tracks,
-    waypoints,
-    metadata
-  };
+export function parseGPXContent(xmlContent: string): GPXData {
+  const parser = new GPXStreamParser();
+  parser.write(xmlContent);
+  return parser.end();
 }
 
 /**
- * Extract metadata from GPX
+ * List the tracks and routes that can be used as a source for placeholders
  */
-function extractMetadata(xmlDoc: Document) {
-  const metadataElement = xmlDoc.querySelector('metadata');
-  if (!metadataElement) return undefined;
+export function getGPXSources(gpxData: GPXData): Array<GPXSource & { label: string }> {
+  const trackSources = gpxData.tracks.map((track, index) => ({
+    type: 'track' as const,
+    index,
+    label: track.name || `Track ${index + 1}`
+  }));
+  const routeSources = gpxData.routes.map((route, index) => ({
+    type: 'route' as const,
+    index,
+    label: route.name || `Route ${index + 1}`
+  }));
   
-  const name = metadataElement.querySelector('name')?.textContent || undefined;
-  const desc = metadataElement.querySelector('desc')?.textContent || undefined;
-  const timeElement = metadataElement.querySelector('time');
-  const time = timeElement ? new Date(timeElement.textContent || '') : undefined;
-  
-  return { name, desc, time };
+  return [...trackSources, ...routeSources];
 }
 
 /**
- * Extract tracks from GPX
+ * Get the segments of a track or route, defaulting to the first available source.
+ * Routes have no segments and are returned as a single one.
  */
-function extractTracks(xmlDoc: Document): GPXTrack[] {
-  const trackElements = xmlDoc.querySelectorAll('trk');
-  const tracks: GPXTrack[] = [];
-  
-  trackElements.forEach(trackElement => {
-    const name = trackElement.querySelector('name')?.textContent || undefined;
-    const points: GPXPoint[] = [];
-    
-    // Get all track segments
-    const segmentElements = trackElement.querySelectorAll('trkseg');
-    
-    segmentElements.forEach(segmentElement => {
-      const trackPoints = segmentElement.querySelectorAll('trkpt');
-      
-      trackPoints.forEach(pointElement => {
-        const lat = parseFloat(pointElement.getAttribute('lat') || '0');
-        const lon = parseFloat(pointElement.getAttribute('lon') || '0');
-        
-        if (isNaN(lat) || isNaN(lon)) return;
-        
-        const eleElement = pointElement.querySelector('ele');
-        const timeElement = pointElement.querySelector('time');
-        
-        const point: GPXPoint = {
-          lat,
-          lon,
-          ele: eleElement ? parseFloat(eleElement.textContent || '0') : undefined,
-          time: timeElement ? new Date(timeElement.textContent || '') : undefined
-        };
-        
-        points.push(point);
-      });
-    });
-    
-    if (points.length > 0) {
-      tracks.push({ name, points });
-    }
-  });
-  
-  return tracks;
-}
-
-/**
- * Extract waypoints from GPX
- */
-function extractWaypoints(xmlDoc: Document): GPXPoint[] {
-  const waypointElements = xmlDoc.querySelectorAll('wpt');
-  const waypoints: GPXPoint[] = [];
+export function getSourceSegments(gpxData: GPXData, source?: GPXSource): GPXPoint[][] {
+  if (!source) {
+    source = gpxData.tracks.length > 0
+      ? { type: 'track', index: 0 }
+      : { type: 'route', index: 0 };
+  }
   
-  waypointElements.forEach(waypointElement => {
-    const lat = parseFloat(waypointElement.getAttribute('lat') || '0');
-    const lon = parseFloat(waypointElement.getAttribute('lon') || '0');
-    
-    if (isNaN(lat) || isNaN(lon)) return;
-    
-    const eleElement = waypointElement.querySelector('ele');
-    const timeElement = waypointElement.querySelector('time');
-    
-    const waypoint: GPXPoint = {
-      lat,
-      lon,
-      ele: eleElement ? parseFloat(eleElement.textContent || '0') : undefined,
-      time: timeElement ? new Date(timeElement.textContent || '') : undefined
-    };
-    
-    waypoints.push(waypoint);
-  });
+  if (source.type === 'track') {
+    return gpxData.tracks[source.index]?.segments ?? [];
+  }
   
-  return waypoints;
+  const route = gpxData.routes[source.index];
+  return route ? [route.points] : [];
 }
 
 /**
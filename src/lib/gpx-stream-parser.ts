@@ -0,0 +1,374 @@
+import type { GPXData, GPXIssue, GPXPoint, GPXRoute, GPXTrack, GPXWaypoint } from '../types';
+import { getSensorKey } from './sensor-data';
+
+interface OpenElement {
+  name: string;
+  text: string;
+  hasChildren: boolean;
+}
+
+type PointKind = 'trkpt' | 'rtept' | 'wpt';
+
+// Text children of <wpt> that are kept on the waypoint
+type WaypointTextField = 'name' | 'desc' | 'sym' | 'type';
+const WAYPOINT_TEXT_FIELDS: WaypointTextField[] = ['name', 'desc', 'sym', 'type'];
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Streaming SAX-style GPX parser.
+ *
+ * Content can be fed in arbitrary chunks with `write()`, so large files never have to be
+ * held as a DOM tree (and the parser works inside Web Workers, where DOMParser is missing).
+ */
+export class GPXStreamParser {
+  private buffer = '';
+  private line = 1;
+  private stack: OpenElement[] = [];
+  private sawGpxElement = false;
+
+  private metadata?: GPXData['metadata'];
+  private tracks: GPXTrack[] = [];
+  private routes: GPXRoute[] = [];
+  private waypoints: GPXWaypoint[] = [];
+  private issues: GPXIssue[] = [];
+
+  private currentTrack: GPXTrack | null = null;
+  private currentSegment: GPXPoint[] | null = null;
+  private currentRoute: GPXRoute | null = null;
+  private currentPoint: GPXPoint | null = null;
+  private currentPointKind: PointKind | null = null;
+  private currentPointDepth = 0;
+
+  /**
+   * Feed the next chunk of XML content
+   */
+  write(chunk: string): void {
+    this.buffer += chunk;
+    let position = 0;
+
+    while (position < this.buffer.length) {
+      if (this.buffer[position] !== '<') {
+        const nextTag = this.buffer.indexOf('<', position);
+        if (nextTag === -1) break; // Text may continue in the next chunk
+
+        this.handleText(this.buffer.slice(position, nextTag));
+        position = nextTag;
+        continue;
+      }
+
+      const tokenEnd = this.findTokenEnd(position);
+      if (tokenEnd === -1) break; // Incomplete tag, wait for more content
+
+      this.handleMarkup(this.buffer.slice(position, tokenEnd));
+      position = tokenEnd;
+    }
+
+    this.buffer = this.buffer.slice(position);
+  }
+
+  /**
+   * Finish parsing and return the collected GPX data
+   */
+  end(): GPXData {
+    if (this.buffer.trim() !== '' || this.stack.length > 0) {
+      throw new Error(`Invalid XML format: unexpected end of file at line ${this.line}`);
+    }
+
+    if (!this.sawGpxElement) {
+      throw new Error('Invalid GPX format: missing gpx element');
+    }
+
+    if (this.tracks.length === 0 && this.routes.length === 0) {
+      throw new Error('No tracks or routes found in GPX file');
+    }
+
+    return {
+      tracks: this.tracks,
+      routes: this.routes,
+      waypoints: this.waypoints,
+      metadata: this.metadata,
+      issues: this.issues
+    };
+  }
+
+  /**
+   * Find the end (exclusive) of the markup token starting at `start`, or -1 if incomplete
+   */
+  private findTokenEnd(start: number): number {
+    const buffer = this.buffer;
+
+    if (buffer.startsWith('<!--', start)) {
+      const end = buffer.indexOf('-->', start + 4);
+      return end === -1 ? -1 : end + 3;
+    }
+    if (buffer.startsWith('<![CDATA[', start)) {
+      const end = buffer.indexOf(']]>', start + 9);
+      return end === -1 ? -1 : end + 3;
+    }
+    if (buffer.startsWith('<?', start)) {
+      const end = buffer.indexOf('?>', start + 2);
+      return end === -1 ? -1 : end + 2;
+    }
+
+    // Regular tag or <!DOCTYPE>: skip '>' characters inside quoted attribute values
+    let quote: string | null = null;
+    for (let i = start + 1; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '>') {
+        return i + 1;
+      }
+    }
+
+    return -1;
+  }
+
+  private handleText(text: string): void {
+    const top = this.stack[this.stack.length - 1];
+    if (top) {
+      top.text += decodeEntities(text);
+    } else if (text.trim() !== '') {
+      throw new Error(`Invalid XML format: text outside of the root element at line ${this.line}`);
+    }
+    this.line += countNewlines(text);
+  }
+
+  private handleMarkup(token: string): void {
+    const tokenLine = this.line;
+    this.line += countNewlines(token);
+
+    if (token.startsWith('<![CDATA[')) {
+      const top = this.stack[this.stack.length - 1];
+      if (top) top.text += token.slice(9, -3);
+      return;
+    }
+
+    // Comments, processing instructions and doctype declarations carry no data
+    if (token.startsWith('<!') || token.startsWith('<?')) return;
+
+    if (token.startsWith('</')) {
+      this.closeElement(localName(token.slice(2, -1).trim()), tokenLine);
+      return;
+    }
+
+    const selfClosing = token.endsWith('/>');
+    const body = token.slice(1, selfClosing ? -2 : -1);
+    const nameMatch = body.match(/^[^\s/>]+/);
+
+    if (!nameMatch) {
+      throw new Error(`Invalid XML format: malformed tag at line ${tokenLine}`);
+    }
+
+    const name = localName(nameMatch[0]);
+    this.openElement(name, parseAttributes(body.slice(nameMatch[0].length)), tokenLine);
+
+    if (selfClosing) {
+      this.closeElement(name, tokenLine);
+    }
+  }
+
+  private openElement(name: string, attributes: Record<string, string>, line: number): void {
+    const parent = this.stack[this.stack.length - 1];
+    if (parent) {
+      parent.hasChildren = true;
+    } else if (this.sawGpxElement) {
+      throw new Error(`Invalid XML format: multiple root elements at line ${this.line}`);
+    }
+
+    this.stack.push({ name, text: '', hasChildren: false });
+
+    switch (name) {
+      case 'gpx':
+        this.sawGpxElement = true;
+        break;
+      case 'metadata':
+        if (parent?.name === 'gpx') this.metadata = {};
+        break;
+      case 'trk':
+        this.currentTrack = { points: [], segments: [] };
+        break;
+      case 'trkseg':
+        if (this.currentTrack) this.currentSegment = [];
+        break;
+      case 'rte':
+        this.currentRoute = { points: [] };
+        break;
+      case 'trkpt':
+      case 'rtept':
+      case 'wpt': {
+        const lat = parseFloat(attributes.lat ?? '');
+        const lon = parseFloat(attributes.lon ?? '');
+
+        this.currentPointKind = name;
+        this.currentPointDepth = this.stack.length;
+        this.currentPoint = isNaN(lat) || isNaN(lon) ? null : { lat, lon, line };
+
+        if (!this.currentPoint) {
+          this.issues.push({
+            type: 'missing-coordinates',
+            severity: 'warning',
+            message: `<${name}> without valid lat/lon was skipped`,
+            line
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  private closeElement(name: string, tokenLine: number): void {
+    const element = this.stack.pop();
+
+    if (!element || element.name !== name) {
+      throw new Error(`Invalid XML format: unexpected closing tag </${name}> at line ${tokenLine}`);
+    }
+
+    const parent = this.stack[this.stack.length - 1];
+    const text = element.text.trim();
+
+    // Values inside the current point
+    if (this.currentPointKind && this.stack.length >= this.currentPointDepth) {
+      if (this.stack.length === this.currentPointDepth) {
+        this.handlePointChild(name, text);
+      } else if (!element.hasChildren && this.stack.some(open => open.name === 'extensions')) {
+        this.handleSensorValue(name, text);
+      }
+      return;
+    }
+
+    switch (name) {
+      case 'trkpt':
+      case 'rtept':
+      case 'wpt':
+        this.finishPoint(name);
+        return;
+      case 'trkseg':
+        if (this.currentTrack && this.currentSegment && this.currentSegment.length > 0) {
+          this.currentTrack.segments.push(this.currentSegment);
+        }
+        this.currentSegment = null;
+        return;
+      case 'trk':
+        if (this.currentTrack && this.currentTrack.segments.length > 0) {
+          this.currentTrack.points = this.currentTrack.segments.flat();
+          this.tracks.push(this.currentTrack);
+        }
+        this.currentTrack = null;
+        return;
+      case 'rte':
+        if (this.currentRoute && this.currentRoute.points.length > 0) {
+          this.routes.push(this.currentRoute);
+        }
+        this.currentRoute = null;
+        return;
+    }
+
+    // Names and descriptions are only read from direct children
+    switch (parent?.name) {
+      case 'trk':
+        if (name === 'name' && this.currentTrack) this.currentTrack.name = text || undefined;
+        break;
+      case 'rte':
+        if (name === 'name' && this.currentRoute) this.currentRoute.name = text || undefined;
+        if (name === 'desc' && this.currentRoute) this.currentRoute.desc = text || undefined;
+        break;
+      case 'metadata':
+        if (!this.metadata) break;
+        if (name === 'name') this.metadata.name = text || undefined;
+        if (name === 'desc') this.metadata.desc = text || undefined;
+        if (name === 'time') this.metadata.time = new Date(text);
+        break;
+    }
+  }
+
+  private handlePointChild(name: string, text: string): void {
+    if (!this.currentPoint) return;
+
+    if (name === 'ele') {
+      this.currentPoint.ele = parseFloat(text || '0');
+    } else if (name === 'time') {
+      this.currentPoint.time = new Date(text);
+    } else if (this.currentPointKind === 'wpt' && WAYPOINT_TEXT_FIELDS.includes(name as WaypointTextField)) {
+      (this.currentPoint as GPXWaypoint)[name as WaypointTextField] = text || undefined;
+    }
+  }
+
+  private handleSensorValue(name: string, text: string): void {
+    const key = getSensorKey(name);
+    if (!key || !this.currentPoint) return;
+
+    const value = parseFloat(text);
+    if (isNaN(value)) return;
+
+    const sensors = this.currentPoint.sensors || (this.currentPoint.sensors = {});
+    if (sensors[key] === undefined) sensors[key] = value;
+  }
+
+  private finishPoint(kind: PointKind): void {
+    const point = this.currentPoint;
+    this.currentPoint = null;
+    this.currentPointKind = null;
+
+    if (!point) return;
+
+    if (kind === 'trkpt') {
+      this.currentSegment?.push(point);
+    } else if (kind === 'rtept') {
+      this.currentRoute?.points.push(point);
+    } else {
+      this.waypoints.push(point);
+    }
+  }
+}
+
+/**
+ * Strip a namespace prefix (e.g. `gpxtpx:hr` -> `hr`)
+ */
+function localName(qualifiedName: string): string {
+  const colon = qualifiedName.indexOf(':');
+  return colon === -1 ? qualifiedName : qualifiedName.slice(colon + 1);
+}
+
+/**
+ * Parse `name="value"` pairs from the inside of a start tag
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+
+  return attributes;
+}
+
+/**
+ * Decode predefined and numeric XML entities
+ */
+function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return Object.prototype.hasOwnProperty.call(ENTITIES, code) ? ENTITIES[code] : entity;
+  });
+}
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) count++;
+  return count;
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { GPXData, GPXPoint } from '../types';
+import { REPAIRABLE_ISSUE_TYPES, repairGPXData, validateGPXData } from './gpx-validation';
+
+const START = Date.parse('2024-01-01T00:00:00Z');
+
+// Points 10 seconds and ~111 m apart heading north, an easy 40 km/h
+function walk(count: number): GPXPoint[] {
+  return Array.from({ length: count }, (_, index) => ({
+    lat: 51 + index * 0.001,
+    lon: 0.1,
+    time: new Date(START + index * 10000)
+  }));
+}
+
+function trackData(points: GPXPoint[]): GPXData {
+  return { tracks: [{ points, segments: [points] }], routes: [] };
+}
+
+describe('validateGPXData', () => {
+  it('reports nothing for a clean track', () => {
+    expect(validateGPXData(trackData(walk(5)))).toEqual([]);
+  });
+
+  it('reports out-of-range coordinates and points at null island', () => {
+    const points = walk(5);
+    points[1] = { ...points[1], lat: 95 };
+    points[3] = { ...points[3], lat: 0, lon: 0 };
+
+    expect(validateGPXData(trackData(points)).map(issue => issue.type)).toEqual(['out-of-range', 'zero-island']);
+  });
+
+  it('reports timestamps going backwards and duplicate points', () => {
+    const points = walk(5);
+    points[2] = { ...points[2], time: new Date(START) };
+    points.splice(4, 0, { ...points[3] });
+
+    expect(validateGPXData(trackData(points)).map(issue => issue.type)).toEqual([
+      'non-monotonic-time',
+      'duplicate-point'
+    ]);
+  });
+
+  it('flags only a lone outlier as an impossible jump', () => {
+    const points = walk(6);
+    points[2] = { ...points[2], lat: 52 };
+
+    const issues = validateGPXData(trackData(points));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('teleport');
+    expect(issues[0].message).toContain('point 3');
+  });
+
+  it('flags a bad first point without flagging the rest of the track', () => {
+    const points = walk(6);
+    points[0] = { ...points[0], lat: 52 };
+
+    const issues = validateGPXData(trackData(points));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('point 1');
+  });
+
+  it('treats a jump the route carries on from as a real gap', () => {
+    const points = walk(6).map((point, index) => index >= 3 ? { ...point, lat: point.lat + 1 } : point);
+
+    expect(validateGPXData(trackData(points))).toEqual([]);
+  });
+
+  it('labels issues by segment when a track has several', () => {
+    const first = walk(3);
+    const second = walk(3).map((point, index) => index === 1 ? { ...point, lat: 95 } : point);
+    const data: GPXData = {
+      tracks: [{ name: 'Ride', points: [...first, ...second], segments: [first, second] }],
+      routes: []
+    };
+
+    expect(validateGPXData(data)[0].message).toMatch(/^Ride, segment 2, point 2:/);
+  });
+});
+
+describe('repairGPXData', () => {
+  it('removes exactly the points validation reports', () => {
+    const points = walk(8);
+    points[1] = { ...points[1], lat: 0, lon: 0 };
+    points[4] = { ...points[4], lat: 53 };
+    points.splice(6, 0, { ...points[5] });
+    const data = trackData(points);
+
+    const issues = validateGPXData(data);
+    const repaired = repairGPXData(data, REPAIRABLE_ISSUE_TYPES);
+
+    expect(repaired.tracks[0].points).toHaveLength(points.length - issues.length);
+    expect(validateGPXData(repaired)).toEqual([]);
+  });
+
+  it('only fixes the requested issue types', () => {
+    const points = walk(5);
+    points[1] = { ...points[1], lat: 0, lon: 0 };
+    points[3] = { ...points[3], lat: 95 };
+
+    const repaired = repairGPXData(trackData(points), ['zero-island']);
+
+    expect(repaired.tracks[0].points).toHaveLength(4);
+    expect(validateGPXData(repaired).map(issue => issue.type)).toEqual(['out-of-range']);
+  });
+
+  it('throws when no points are left', () => {
+    const points = walk(2).map(point => ({ ...point, lat: 0, lon: 0 }));
+
+    expect(() => repairGPXData(trackData(points), ['zero-island'])).toThrow('No valid points left');
+  });
+});
@@ -0,0 +1,269 @@
+import type { GPXData, GPXIssue, GPXIssueType, GPXPoint } from '../types';
+import { calculateDistance } from './utils';
+
+export interface ValidationOptions {
+  maxSpeed: number; // m/s, jumps faster than this are reported as teleports
+}
+
+const DEFAULT_OPTIONS: ValidationOptions = {
+  maxSpeed: 70 // ~250 km/h, faster than any runner, rider or road vehicle
+};
+
+// Issue types that repairGPXData can fix by removing the offending points
+export const REPAIRABLE_ISSUE_TYPES: GPXIssueType[] = [
+  'out-of-range',
+  'zero-island',
+  'non-monotonic-time',
+  'duplicate-point',
+  'teleport'
+];
+
+export const ISSUE_LABELS: Record<GPXIssueType, string> = {
+  'missing-coordinates': 'Missing coordinates',
+  'out-of-range': 'Coordinates out of range',
+  'zero-island': 'Points at 0°, 0° ("null island")',
+  'non-monotonic-time': 'Timestamps going backwards',
+  'duplicate-point': 'Duplicate points',
+  'teleport': 'Impossible jumps'
+};
+
+/**
+ * Check every track segment and route for suspicious points. The points reported are exactly
+ * the ones repairGPXData removes when every repairable issue type is fixed.
+ */
+export function validateGPXData(
+  data: GPXData,
+  options: Partial<ValidationOptions> = {}
+): GPXIssue[] {
+  const { maxSpeed } = { ...DEFAULT_OPTIONS, ...options };
+  const issues: GPXIssue[] = [...(data.issues || [])];
+  const fix = new Set(REPAIRABLE_ISSUE_TYPES);
+
+  forEachSequence(data, (points, label) => {
+    scanSequence(points, fix, maxSpeed).issues.forEach(({ index, issue }) => {
+      issues.push({ ...issue, message: `${label}, point ${index + 1}: ${issue.message}`, line: points[index].line });
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Produce a cleaned copy of the data with the points behind the given issue types removed
+ */
+export function repairGPXData(
+  data: GPXData,
+  issueTypes: GPXIssueType[],
+  options: Partial<ValidationOptions> = {}
+): GPXData {
+  const { maxSpeed } = { ...DEFAULT_OPTIONS, ...options };
+  const fix = new Set(issueTypes);
+  const cleanPoints = (points: GPXPoint[]): GPXPoint[] => scanSequence(points, fix, maxSpeed).kept;
+
+  const tracks = data.tracks
+    .map(track => {
+      const segments = track.segments.map(cleanPoints).filter(segment => segment.length > 0);
+      return { ...track, points: segments.flat(), segments };
+    })
+    .filter(track => track.segments.length > 0);
+
+  const routes = data.routes
+    .map(route => ({ ...route, points: cleanPoints(route.points) }))
+    .filter(route => route.points.length > 0);
+
+  if (tracks.length === 0 && routes.length === 0) {
+    throw new Error('No valid points left after applying fixes');
+  }
+
+  return {
+    ...data,
+    tracks,
+    routes,
+    issues: data.issues?.filter(issue => !fix.has(issue.type))
+  };
+}
+
+/**
+ * Call `callback` for each track segment and route with a human-readable label
+ */
+function forEachSequence(data: GPXData, callback: (points: GPXPoint[], label: string) => void): void {
+  data.tracks.forEach((track, trackIndex) => {
+    const trackLabel = track.name || `Track ${trackIndex + 1}`;
+    track.segments.forEach((segment, segmentIndex) => {
+      callback(segment, track.segments.length > 1 ? `${trackLabel}, segment ${segmentIndex + 1}` : trackLabel);
+    });
+  });
+
+  data.routes.forEach((route, routeIndex) => {
+    callback(route.points, route.name || `Route ${routeIndex + 1}`);
+  });
+}
+
+/**
+ * Walk a track segment or route, finding the issue of each point and dropping the points whose
+ * issue type is in `fix`. Sequence checks compare each point with the last point kept.
+ */
+function scanSequence(
+  points: GPXPoint[],
+  fix: Set<GPXIssueType>,
+  maxSpeed: number
+): { issues: Array<{ index: number; issue: Omit<GPXIssue, 'line'> }>; kept: GPXPoint[] } {
+  const issues: Array<{ index: number; issue: Omit<GPXIssue, 'line'> }> = [];
+  const kept: GPXPoint[] = [];
+  // Indices of the points whose coordinates are usable, to look ahead for jumps
+  const usable = points.flatMap((point, index) => checkPoint(point) ? [] : [index]);
+  let previous: GPXPoint | null = null;
+  let beforePrevious: GPXPoint | null = null;
+  let position = 0;
+
+  points.forEach((point, index) => {
+    let issue = checkPoint(point);
+
+    if (!issue) {
+      while (usable[position] <= index) position++;
+      const next = points[usable[position]];
+      const afterNext = points[usable[position + 1]];
+
+      const sequenceIssue = previous ? checkAgainstPrevious(previous, point, maxSpeed) : null;
+      if (sequenceIssue && sequenceIssue.type !== 'teleport') {
+        issue = sequenceIssue;
+      } else if (isTeleportOutlier([beforePrevious, previous], point, [next, afterNext], maxSpeed)) {
+        // A jump is only the point's fault when the route carries on from where it was before;
+        // otherwise it is a real gap (e.g. a train ride, or the recording resuming elsewhere)
+        issue = teleportIssue(previous ? measureJump(previous, point)! : measureJump(point, next!)!);
+      }
+    }
+
+    if (issue) {
+      issues.push({ index, issue });
+      if (fix.has(issue.type)) return;
+    }
+
+    kept.push(point);
+    // Don't compare against a point that is itself broken
+    if (!issue || !['out-of-range', 'zero-island'].includes(issue.type)) {
+      beforePrevious = previous;
+      previous = point;
+    }
+  });
+
+  return { issues, kept };
+}
+
+/**
+ * Whether a point is a lone bad fix: the jumps to it from the previous point and on to the next
+ * are both impossible, but going straight from the previous point to the next is not. The first
+ * and last points only have neighbours on one side, so they are outliers when the jump to them
+ * is impossible and the route carries on normally beyond their neighbour.
+ */
+function isTeleportOutlier(
+  [beforePrevious, previous]: [GPXPoint | null, GPXPoint | null],
+  point: GPXPoint,
+  [next, afterNext]: [GPXPoint | undefined, GPXPoint | undefined],
+  maxSpeed: number
+): boolean {
+  if (previous && next) {
+    return isImpossibleJump(previous, point, maxSpeed) &&
+      isImpossibleJump(point, next, maxSpeed) &&
+      !isImpossibleJump(previous, next, maxSpeed);
+  }
+  if (next) {
+    return isImpossibleJump(point, next, maxSpeed) && isPossibleJump(next, afterNext, maxSpeed);
+  }
+  if (previous) {
+    return isImpossibleJump(previous, point, maxSpeed) && isPossibleJump(beforePrevious, previous, maxSpeed);
+  }
+  return false;
+}
+
+/**
+ * Distance and speed between two points, or null when their timestamps do not move forwards
+ */
+function measureJump(from: GPXPoint, to: GPXPoint): { distance: number; speed: number } | null {
+  const fromTime = from.time?.getTime();
+  const toTime = to.time?.getTime();
+  if (fromTime === undefined || toTime === undefined || isNaN(fromTime) || isNaN(toTime) || toTime <= fromTime) {
+    return null;
+  }
+
+  const distance = calculateDistance(from.lat, from.lon, to.lat, to.lon);
+  return { distance, speed: distance / ((toTime - fromTime) / 1000) };
+}
+
+function isImpossibleJump(from: GPXPoint, to: GPXPoint, maxSpeed: number): boolean {
+  const jump = measureJump(from, to);
+  return !!jump && jump.speed > maxSpeed;
+}
+
+// Only true for a timed jump that is fast enough, so a missing point or timestamp proves nothing
+function isPossibleJump(from: GPXPoint | null | undefined, to: GPXPoint | null | undefined, maxSpeed: number): boolean {
+  const jump = from && to ? measureJump(from, to) : null;
+  return !!jump && jump.speed <= maxSpeed;
+}
+
+function teleportIssue(jump: { distance: number; speed: number }): Omit<GPXIssue, 'line'> {
+  return {
+    type: 'teleport',
+    severity: 'error',
+    message: `jump of ${Math.round(jump.distance)}m at ${Math.round(jump.speed * 3.6)} km/h`
+  };
+}
+
+/**
+ * Checks that only need the point itself
+ */
+function checkPoint(point: GPXPoint): Omit<GPXIssue, 'line'> | null {
+  if (Math.abs(point.lat) > 90 || Math.abs(point.lon) > 180) {
+    return {
+      type: 'out-of-range',
+      severity: 'error',
+      message: `coordinates ${point.lat}, ${point.lon} are out of range`
+    };
+  }
+
+  if (point.lat === 0 && point.lon === 0) {
+    return {
+      type: 'zero-island',
+      severity: 'error',
+      message: 'point at 0°, 0° (usually a missing GPS fix)'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Checks that compare a point with the previous valid point
+ */
+function checkAgainstPrevious(
+  previous: GPXPoint,
+  point: GPXPoint,
+  maxSpeed: number
+): Omit<GPXIssue, 'line'> | null {
+  const previousTime = previous.time?.getTime();
+  const time = point.time?.getTime();
+  const hasTimes = previousTime !== undefined && time !== undefined && !isNaN(previousTime) && !isNaN(time);
+
+  if (hasTimes && time < previousTime) {
+    return {
+      type: 'non-monotonic-time',
+      severity: 'warning',
+      message: `timestamp ${point.time!.toISOString()} is earlier than the previous point`
+    };
+  }
+
+  if (point.lat === previous.lat && point.lon === previous.lon && (!hasTimes || time === previousTime)) {
+    return {
+      type: 'duplicate-point',
+      severity: 'warning',
+      message: 'duplicate of the previous point'
+    };
+  }
+
+  const jump = measureJump(previous, point);
+  if (jump && jump.speed > maxSpeed) {
+    return teleportIssue(jump);
+  }
+
+  return null;
+}
@@ -0,0 +1,72 @@
+import type { ProcessingProgress } from '../types';
+import type {
+  GPXWorkerRequest,
+  GPXWorkerResponse,
+  GPXWorkerResults
+} from '../workers/gpx-worker-protocol';
+
+/**
+ * Run a parsing or sampling task in a dedicated GPX worker.
+ * Each task gets its own worker, which is terminated when the task finishes or is aborted.
+ */
+export function runGPXWorkerTask<T extends GPXWorkerRequest>(
+  request: T,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<GPXWorkerResults[T['type']]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/gpx-worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(createAbortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<GPXWorkerResponse>) => {
+      const response = event.data;
+
+      switch (response.type) {
+        case 'progress':
+          onProgress?.(response.progress);
+          break;
+        case 'result':
+          finish();
+          resolve(response.result as GPXWorkerResults[T['type']]);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(response.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'GPX worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Check whether an error was caused by cancelling a worker task
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Processing cancelled', 'AbortError');
+}
@@ -0,0 +1,55 @@
+import type { ImageryProvider } from './types';
+
+export interface FakeImageryOptions {
+  id?: string;
+  // Whether there is imagery at a point; everywhere by default
+  hasCoverage?: (lat: number, lng: number) => boolean;
+  // Points in the same cell of this size share an image, like neighbouring points sharing a panorama
+  cellSize?: number; // degrees
+}
+
+/**
+ * Provider that makes up imagery locally without any network requests, for tests and demos.
+ * Images are SVGs showing the position and heading they were requested for.
+ */
+export function createFakeImageryProvider(fakeOptions: FakeImageryOptions = {}): ImageryProvider {
+  const { id = 'fake', hasCoverage = () => true, cellSize = 0.0002 } = fakeOptions;
+
+  return {
+    id,
+    label: 'Test imagery',
+    attribution: 'Test imagery',
+    costPerImage: 0,
+    costPerCheck: 0,
+    canAim: true,
+
+    findImagery: async (lat, lng, _heading, _options, signal) => {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      if (!hasCoverage(lat, lng)) return { status: 'ZERO_RESULTS' };
+
+      const row = Math.round(lat / cellSize);
+      const column = Math.round(lng / cellSize);
+      return {
+        status: 'OK',
+        panoId: `${id}:${row}:${column}`,
+        date: '2020-01',
+        location: { lat: row * cellSize, lng: column * cellSize },
+        copyright: 'Test imagery'
+      };
+    },
+
+    getImageUrl: async (image, heading, { size }) => {
+      const [width, height] = size.split('x').map(value => parseInt(value) || 640);
+      const { lat, lng } = image.metadata?.location ?? image.coordinates;
+      const svg = `
+        <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+          <rect width="100%" height="100%" fill="#64748b"/>
+          <text x="50%" y="50%" fill="#ffffff" font-family="sans-serif" font-size="20" text-anchor="middle">
+            ${lat.toFixed(5)}, ${lng.toFixed(5)} facing ${Math.round(heading)}°
+          </text>
+        </svg>
+      `;
+      return 'data:image/svg+xml;base64,' + btoa(svg);
+    }
+  };
+}
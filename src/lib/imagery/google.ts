@@ -0,0 +1,63 @@
+import type { StreetViewStatus } from '../../types';
+import type { ImageryProvider } from './types';
+
+const BASE_URL = 'https://maps.googleapis.com/maps/api/streetview';
+
+// Statuses that answer whether there is coverage; anything else means the request itself failed
+const COVERAGE_STATUSES: StreetViewStatus[] = ['OK', 'ZERO_RESULTS', 'NOT_FOUND'];
+
+/**
+ * Google Street View Static API. Metadata requests are free; images are billed per request.
+ */
+export const googleProvider: ImageryProvider = {
+  id: 'google',
+  label: 'Google Street View',
+  attribution: '© Google',
+  costPerImage: 0.007,
+  costPerCheck: 0,
+  credential: { setting: 'apiKey', label: 'Google API key' },
+  canAim: true,
+
+  findImagery: async (lat, lng, _heading, { apiKey, search }, signal) => {
+    const params = new URLSearchParams({
+      location: `${lat},${lng}`,
+      radius: search.radius.toString(),
+      source: search.source,
+      key: apiKey
+    });
+    const response = await fetch(`${BASE_URL}/metadata?${params.toString()}`, { signal });
+    const data = await response.json();
+    if (!COVERAGE_STATUSES.includes(data.status)) {
+      throw new Error(data.error_message || `Street View metadata request failed (${data.status})`);
+    }
+
+    return {
+      status: data.status,
+      panoId: data.pano_id,
+      date: data.date,
+      location: data.location,
+      copyright: data.copyright
+    };
+  },
+
+  getImageUrl: async (image, heading, { apiKey, search, size, fov, pitch }) => {
+    const panoId = image.metadata?.panoId;
+    const params = new URLSearchParams({
+      size,
+      // Ask for the panorama the coverage check found, rather than whichever is nearest the point
+      ...(panoId
+        ? { pano: panoId }
+        : {
+            location: `${image.coordinates.lat},${image.coordinates.lng}`,
+            radius: search.radius.toString(),
+            source: search.source
+          }),
+      heading: heading.toString(),
+      pitch: pitch.toString(),
+      fov: fov.toString(),
+      key: apiKey
+    });
+
+    return `${BASE_URL}?${params.toString()}`;
+  }
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { GPXPoint } from '../../types';
+import { checkStreetViewCoverage, generateStreetViewPlaceholders } from '../street-view-api';
+import { removeDuplicatePanoramas, summarizeCoverage } from '../coverage';
+import {
+  createFakeImageryProvider,
+  getImageryProvider,
+  getImageryProviders,
+  googleProvider,
+  registerImageryProvider
+} from './index';
+import type { ImageryOptions } from './index';
+
+const options: ImageryOptions = {
+  apiKey: '',
+  search: { radius: 50, source: 'outdoor' },
+  size: '320x240',
+  fov: 90,
+  pitch: 0
+};
+
+// ~1.1 km north; the fake provider only has imagery on the southern half
+const route: GPXPoint[] = [{ lat: 51, lon: 0.1 }, { lat: 51.01, lon: 0.1 }];
+const southernHalf = (lat: number) => lat < 51.005;
+
+async function frames() {
+  return generateStreetViewPlaceholders([route], {
+    mode: 'interval',
+    intervalDistance: 100,
+    creditBudget: 500,
+    timeInterval: 30,
+    minStopDuration: 60,
+    headingLookAhead: 30,
+    simplifyTolerance: 0,
+    simplifyMethod: 'rdp'
+  });
+}
+
+describe('imagery provider registry', () => {
+  it('registers a provider, replacing one with the same id', () => {
+    registerImageryProvider(createFakeImageryProvider({ id: 'test-registry' }));
+    const replacement = createFakeImageryProvider({ id: 'test-registry' });
+    registerImageryProvider(replacement);
+
+    expect(getImageryProviders().filter(provider => provider.id === 'test-registry')).toEqual([replacement]);
+    expect(getImageryProvider('test-registry')).toBe(replacement);
+  });
+
+  it('falls back to Google Street View for unknown ids', () => {
+    expect(getImageryProvider('no-such-provider')).toBe(googleProvider);
+  });
+});
+
+describe('coverage check with the fake provider', () => {
+  it('finds imagery where the provider has coverage and snaps frames to it', async () => {
+    const provider = createFakeImageryProvider({ hasCoverage: (lat) => southernHalf(lat) });
+    const images = await frames();
+    const checked = await checkStreetViewCoverage(images, provider, options);
+
+    checked.forEach(image => {
+      expect(image.metadata?.status).toBe(southernHalf(image.coordinates.lat) ? 'OK' : 'ZERO_RESULTS');
+      if (image.snap) expect(image.snap.offset).toBeLessThan(20);
+    });
+    expect(summarizeCoverage(checked).percentage).toBeCloseTo(50, -1);
+  });
+
+  it('merges neighbouring frames that share a panorama', async () => {
+    // Cells of ~550 m, so several frames fall in each
+    const provider = createFakeImageryProvider({ cellSize: 0.005 });
+    const checked = await checkStreetViewCoverage(await frames(), provider, options);
+    const { images, removed } = removeDuplicatePanoramas(checked);
+
+    expect(removed).toBeGreaterThan(0);
+    expect(new Set(images.map(image => image.metadata!.panoId)).size).toBe(images.length);
+  });
+
+  it('stops when the check is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      checkStreetViewCoverage(await frames(), createFakeImageryProvider(), options, undefined, controller.signal)
+    ).rejects.toThrow('Aborted');
+  });
+
+  it('draws an image facing the requested heading', async () => {
+    const provider = createFakeImageryProvider();
+    const [image] = await frames();
+    const url = await provider.getImageUrl(image, 90, options);
+
+    expect(url.startsWith('data:image/svg+xml;base64,')).toBe(true);
+    expect(atob(url.split(',')[1])).toContain('facing 90°');
+  });
+});
@@ -0,0 +1,48 @@
+import type { AppSettings } from '../../types';
+import type { ImageryProvider } from './types';
+import { googleProvider } from './google';
+import { mapillaryProvider } from './mapillary';
+
+export type { ImageryCredential, ImageryOptions, ImageryProvider, ImagerySearchOptions } from './types';
+export { googleProvider } from './google';
+export { mapillaryProvider } from './mapillary';
+export { createFakeImageryProvider } from './fake';
+export type { FakeImageryOptions } from './fake';
+
+let providers: ImageryProvider[] = [googleProvider, mapillaryProvider];
+
+/**
+ * Register an additional imagery provider, replacing any provider with the same id
+ */
+export function registerImageryProvider(provider: ImageryProvider): void {
+  providers = [...providers.filter(other => other.id !== provider.id), provider];
+}
+
+/**
+ * All registered imagery providers, in the order they were registered
+ */
+export function getImageryProviders(): ImageryProvider[] {
+  return providers;
+}
+
+/**
+ * The provider with the given id, falling back to Google Street View for unknown ids
+ * (e.g. settings saved before a provider was removed)
+ */
+export function getImageryProvider(id: string): ImageryProvider {
+  return providers.find(provider => provider.id === id) ?? googleProvider;
+}
+
+/**
+ * The API key or access token a provider needs from the settings, or '' if none is set
+ */
+export function getImageryCredential(settings: AppSettings, provider: ImageryProvider): string {
+  return provider.credential ? settings[provider.credential.setting] : '';
+}
+
+/**
+ * Whether images can be loaded from a provider with the current settings
+ */
+export function hasImageryCredential(settings: AppSettings, provider: ImageryProvider): boolean {
+  return !provider.credential || !!getImageryCredential(settings, provider);
+}
@@ -0,0 +1,132 @@
+import type { StreetViewMetadata } from '../../types';
+import { angleDifference, calculateDistance } from '../utils';
+import type { ImageryProvider, ImagerySearchOptions } from './types';
+
+const BASE_URL = 'https://graph.mapillary.com';
+
+const METERS_PER_DEGREE = 111320;
+// Most images returned for one search; plenty to choose a heading from
+const SEARCH_LIMIT = 50;
+
+// Thumbnail widths Mapillary serves, smallest first
+const THUMBNAIL_SIZES: Array<{ width: number; field: string }> = [
+  { width: 256, field: 'thumb_256_url' },
+  { width: 1024, field: 'thumb_1024_url' },
+  { width: 2048, field: 'thumb_2048_url' }
+];
+
+interface MapillaryImage {
+  id: string;
+  compass_angle?: number;
+  computed_compass_angle?: number;
+  geometry?: { coordinates: [number, number] };
+  computed_geometry?: { coordinates: [number, number] };
+  captured_at?: number; // milliseconds since the epoch
+  creator?: { username: string };
+}
+
+/**
+ * Mapillary's crowd-sourced imagery, which often covers trails and paths Google has not driven.
+ * Each point uses the nearby photo facing closest to the route heading, so images cannot be
+ * re-aimed the way Street View panoramas can.
+ */
+export const mapillaryProvider: ImageryProvider = {
+  id: 'mapillary',
+  label: 'Mapillary',
+  attribution: '© Mapillary contributors',
+  costPerImage: 0,
+  costPerCheck: 0,
+  credential: { setting: 'mapillaryToken', label: 'Mapillary access token' },
+  canAim: false,
+
+  findImagery: (lat, lng, heading, options, signal) => findImage(lat, lng, heading, options, signal),
+
+  getImageUrl: async (image, heading, options) => {
+    // Frames that have not been checked look up their photo now
+    const imageId = image.metadata?.panoId ??
+      (await findImage(image.coordinates.lat, image.coordinates.lng, heading, options)).panoId;
+    if (!imageId) {
+      throw new Error('No Mapillary imagery at this location');
+    }
+
+    const width = parseInt(options.size) || 640;
+    const thumbnail = THUMBNAIL_SIZES.find(size => size.width >= width) ?? THUMBNAIL_SIZES[THUMBNAIL_SIZES.length - 1];
+    const data = await request<Record<string, string>>(`/${imageId}`, { fields: thumbnail.field }, options.apiKey);
+    if (!data[thumbnail.field]) {
+      throw new Error('Mapillary has no thumbnail for this image');
+    }
+    return data[thumbnail.field];
+  }
+};
+
+/**
+ * Search a box around a point for photos within the search radius, and pick the one facing
+ * closest to `heading` (the nearest one where several face the same way)
+ */
+async function findImage(
+  lat: number,
+  lng: number,
+  heading: number,
+  { apiKey, search }: ImagerySearchOptions,
+  signal?: AbortSignal
+): Promise<StreetViewMetadata> {
+  const latDelta = search.radius / METERS_PER_DEGREE;
+  const lngDelta = latDelta / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  const data = await request<{ data: MapillaryImage[] }>('/images', {
+    bbox: [lng - lngDelta, lat - latDelta, lng + lngDelta, lat + latDelta].join(','),
+    fields: 'id,compass_angle,computed_compass_angle,geometry,computed_geometry,captured_at,creator',
+    limit: SEARCH_LIMIT.toString()
+  }, apiKey, signal);
+
+  const candidates = data.data
+    .map(image => {
+      const [imageLng, imageLat] = (image.computed_geometry ?? image.geometry)?.coordinates ?? [lng, lat];
+      const angle = image.computed_compass_angle ?? image.compass_angle;
+      return {
+        image,
+        location: { lat: imageLat, lng: imageLng },
+        distance: calculateDistance(lat, lng, imageLat, imageLng),
+        misalignment: angle === undefined ? 180 : Math.abs(angleDifference(angle, heading))
+      };
+    })
+    // The box's corners reach further than the radius
+    .filter(candidate => candidate.distance <= search.radius);
+
+  if (candidates.length === 0) {
+    return { status: 'ZERO_RESULTS' };
+  }
+
+  const best = candidates.reduce((best, candidate) =>
+    candidate.misalignment < best.misalignment ||
+    (candidate.misalignment === best.misalignment && candidate.distance < best.distance)
+      ? candidate
+      : best
+  );
+
+  return {
+    status: 'OK',
+    panoId: best.image.id,
+    // Capture dates are "YYYY-MM", like Street View's
+    date: best.image.captured_at ? new Date(best.image.captured_at).toISOString().slice(0, 7) : undefined,
+    location: best.location,
+    copyright: best.image.creator ? `© ${best.image.creator.username}, Mapillary` : undefined
+  };
+}
+
+/**
+ * GET a Graph API endpoint, throwing the API's own error message when the request fails
+ */
+async function request<T>(
+  path: string,
+  params: Record<string, string>,
+  accessToken: string,
+  signal?: AbortSignal
+): Promise<T> {
+  const query = new URLSearchParams({ ...params, access_token: accessToken });
+  const response = await fetch(`${BASE_URL}${path}?${query.toString()}`, { signal });
+  const data = await response.json();
+  if (!response.ok || data.error) {
+    throw new Error(data.error?.message || `Mapillary request failed (${response.status})`);
+  }
+  return data as T;
+}
@@ -0,0 +1,45 @@
+import type { StreetViewImage, StreetViewMetadata, StreetViewSearch } from '../../types';
+
+// Settings that hold a provider's API key or access token
+export type ImageryCredential = 'apiKey' | 'mapillaryToken';
+
+// What a provider needs to look up imagery
+export interface ImagerySearchOptions {
+  apiKey: string; // the provider's API key or access token
+  search: StreetViewSearch;
+}
+
+// What a provider needs to fetch an image
+export interface ImageryOptions extends ImagerySearchOptions {
+  size: string; // e.g. "640x640"
+  fov: number;
+  pitch: number;
+}
+
+/**
+ * A source of street-level imagery
+ */
+export interface ImageryProvider {
+  id: string;
+  label: string;
+  attribution: string; // shown with images that carry no attribution of their own
+  costPerImage: number; // USD per image loaded
+  costPerCheck: number; // USD per availability lookup
+  credential?: { setting: ImageryCredential; label: string }; // unset for providers that need no key
+  canAim: boolean; // whether images can be requested facing any heading, so the camera can be turned
+  /**
+   * Look up the imagery nearest to a point, preferring imagery facing `heading` where there is
+   * a choice. Throws when the request itself fails, as opposed to finding nothing.
+   */
+  findImagery(
+    lat: number,
+    lng: number,
+    heading: number,
+    options: ImagerySearchOptions,
+    signal?: AbortSignal
+  ): Promise<StreetViewMetadata>;
+  /**
+   * URL of the image for a frame, using the imagery found for it when it has been checked
+   */
+  getImageUrl(image: StreetViewImage, heading: number, options: ImageryOptions): Promise<string>;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFIT, parseFITContent } from './fit';
+
+// FIT seconds for 2024-01-01T00:00:00Z
+const START = 1704067200 - 631065600;
+const DEGREES_TO_SEMICIRCLES = 2 ** 31 / 180;
+
+interface TestRecord {
+  time: number; // seconds after START
+  lat: number;
+  lon: number;
+  ele?: number;
+}
+
+/**
+ * Build a FIT file holding lap start messages followed by record messages
+ */
+function buildFIT(records: TestRecord[], lapStarts: number[] = []): ArrayBuffer {
+  const bytes: number[] = [];
+  const push = (size: number, write: (view: DataView) => void) => {
+    const view = new DataView(new ArrayBuffer(size));
+    write(view);
+    bytes.push(...new Uint8Array(view.buffer));
+  };
+  const uint32 = (value: number) => push(4, view => view.setUint32(0, value, true));
+  const sint32 = (value: number) => push(4, view => view.setInt32(0, value, true));
+  const uint16 = (value: number) => push(2, view => view.setUint16(0, value, true));
+
+  // Lap definition, local type 1: start_time
+  bytes.push(0x41, 0, 0);
+  uint16(19);
+  bytes.push(1, 2, 4, 0x86);
+  lapStarts.forEach(time => {
+    bytes.push(0x01);
+    uint32(START + time);
+  });
+
+  // Record definition, local type 0: timestamp, position_lat, position_long, altitude
+  bytes.push(0x40, 0, 0);
+  uint16(20);
+  bytes.push(4, 253, 4, 0x86, 0, 4, 0x85, 1, 4, 0x85, 2, 2, 0x84);
+  records.forEach(record => {
+    bytes.push(0x00);
+    uint32(START + record.time);
+    sint32(Math.round(record.lat * DEGREES_TO_SEMICIRCLES));
+    sint32(Math.round(record.lon * DEGREES_TO_SEMICIRCLES));
+    uint16(record.ele === undefined ? 0xffff : (record.ele + 500) * 5);
+  });
+
+  const header = new DataView(new ArrayBuffer(14));
+  header.setUint8(0, 14);
+  header.setUint8(1, 0x10);
+  header.setUint16(2, 2100, true);
+  header.setUint32(4, bytes.length, true);
+  [...'.FIT'].forEach((char, index) => header.setUint8(8 + index, char.charCodeAt(0)));
+
+  // CRCs are not checked
+  return new Uint8Array([...new Uint8Array(header.buffer), ...bytes, 0, 0]).buffer;
+}
+
+const records: TestRecord[] = [
+  { time: 0, lat: 51.5, lon: -0.1, ele: 20 },
+  { time: 10, lat: 51.501, lon: -0.1, ele: 21 },
+  { time: 20, lat: 51.502, lon: -0.1 },
+  { time: 30, lat: 51.503, lon: -0.1, ele: 23 }
+];
+
+describe('decodeFIT', () => {
+  it('decodes positions, altitude and timestamps from record messages', () => {
+    const activity = decodeFIT(buildFIT(records));
+
+    expect(activity.records).toHaveLength(4);
+    expect(activity.records[0].lat).toBeCloseTo(51.5, 6);
+    expect(activity.records[0].lon).toBeCloseTo(-0.1, 6);
+    expect(activity.records[0].ele).toBe(20);
+    expect(activity.records[2].ele).toBeUndefined();
+    expect(activity.records[1].time).toEqual(new Date('2024-01-01T00:00:10Z'));
+  });
+
+  it('collects lap start times', () => {
+    const activity = decodeFIT(buildFIT(records, [0, 20]));
+
+    expect(activity.lapStartTimes).toEqual([
+      new Date('2024-01-01T00:00:00Z'),
+      new Date('2024-01-01T00:00:20Z')
+    ]);
+  });
+
+  it('rejects files without a FIT header', () => {
+    expect(() => decodeFIT(new Uint8Array(16).buffer)).toThrow('missing .FIT header');
+  });
+});
+
+describe('parseFITContent', () => {
+  it('makes one track segment per lap', () => {
+    const data = parseFITContent(buildFIT(records, [0, 20]));
+    const track = data.tracks[0];
+
+    expect(track.points).toHaveLength(4);
+    expect(track.segments.map(segment => segment.length)).toEqual([2, 2]);
+    expect(track.segments[1][0].time).toEqual(new Date('2024-01-01T00:00:20Z'));
+  });
+
+  it('keeps an activity without laps as one segment', () => {
+    const data = parseFITContent(buildFIT(records));
+
+    expect(data.tracks[0].segments).toHaveLength(1);
+  });
+
+  it('throws when no record has a position', () => {
+    expect(() => parseFITContent(buildFIT([]))).toThrow('No positioned records');
+  });
+});
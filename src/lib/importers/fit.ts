@@ -0,0 +1,330 @@
+import type { GPXData, GPXPoint, GPXSensorData } from '../../types';
+import type { RouteImporter } from './types';
+
+// Global message numbers from the FIT profile
+const MESG_FILE_ID = 0;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+
+// Field numbers used by the messages above
+const FIELD_TIMESTAMP = 253;
+const FIELD_FILE_ID_TIME_CREATED = 4;
+const FIELD_LAP_START_TIME = 2;
+const FIELD_RECORD_POSITION_LAT = 0;
+const FIELD_RECORD_POSITION_LONG = 1;
+const FIELD_RECORD_ALTITUDE = 2;
+const FIELD_RECORD_HEART_RATE = 3;
+const FIELD_RECORD_CADENCE = 4;
+const FIELD_RECORD_SPEED = 6;
+const FIELD_RECORD_POWER = 7;
+const FIELD_RECORD_TEMPERATURE = 13;
+const FIELD_RECORD_ENHANCED_SPEED = 73;
+const FIELD_RECORD_ENHANCED_ALTITUDE = 78;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+interface BaseType {
+  size: number;
+  read: (view: DataView, offset: number, littleEndian: boolean) => number;
+  invalid: number;
+}
+
+// Indexed by the low 5 bits of the base type byte
+const BASE_TYPES: Record<number, BaseType> = {
+  0x00: { size: 1, read: (v, o) => v.getUint8(o), invalid: 0xff }, // enum
+  0x01: { size: 1, read: (v, o) => v.getInt8(o), invalid: 0x7f }, // sint8
+  0x02: { size: 1, read: (v, o) => v.getUint8(o), invalid: 0xff }, // uint8
+  0x03: { size: 2, read: (v, o, le) => v.getInt16(o, le), invalid: 0x7fff }, // sint16
+  0x04: { size: 2, read: (v, o, le) => v.getUint16(o, le), invalid: 0xffff }, // uint16
+  0x05: { size: 4, read: (v, o, le) => v.getInt32(o, le), invalid: 0x7fffffff }, // sint32
+  0x06: { size: 4, read: (v, o, le) => v.getUint32(o, le), invalid: 0xffffffff }, // uint32
+  0x08: { size: 4, read: (v, o, le) => v.getFloat32(o, le), invalid: NaN }, // float32
+  0x09: { size: 8, read: (v, o, le) => v.getFloat64(o, le), invalid: NaN }, // float64
+  0x0a: { size: 1, read: (v, o) => v.getUint8(o), invalid: 0 }, // uint8z
+  0x0b: { size: 2, read: (v, o, le) => v.getUint16(o, le), invalid: 0 }, // uint16z
+  0x0c: { size: 4, read: (v, o, le) => v.getUint32(o, le), invalid: 0 }, // uint32z
+  0x0d: { size: 1, read: (v, o) => v.getUint8(o), invalid: 0xff } // byte
+};
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalMessageNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+type FitMessage = Map<number, number>;
+
+export interface FitActivity {
+  records: GPXPoint[];
+  lapStartTimes: Date[];
+  timeCreated?: Date;
+}
+
+/**
+ * Garmin/ANT FIT activity files
+ */
+export const fitImporter: RouteImporter = {
+  format: 'fit',
+  label: 'Garmin FIT',
+  extensions: ['.fit'],
+  // Bytes 8-11 of the file header are the ASCII signature ".FIT"
+  sniff: (bytes) =>
+    bytes.length >= 12 &&
+    bytes[8] === 0x2e && bytes[9] === 0x46 && bytes[10] === 0x49 && bytes[11] === 0x54,
+  parse: async (buffer) => parseFITContent(buffer)
+};
+
+/**
+ * Convert a FIT activity into GPX data, one segment per lap
+ */
+export function parseFITContent(buffer: ArrayBuffer): GPXData {
+  const activity = decodeFIT(buffer);
+
+  if (activity.records.length === 0) {
+    throw new Error('No positioned records found in FIT file');
+  }
+
+  const segments = splitByLaps(activity.records, activity.lapStartTimes);
+
+  return {
+    tracks: [{
+      name: activity.timeCreated ? `Activity ${activity.timeCreated.toLocaleString()}` : undefined,
+      points: activity.records,
+      segments
+    }],
+    routes: [],
+    waypoints: [],
+    metadata: { time: activity.timeCreated }
+  };
+}
+
+/**
+ * Decode the record, lap and file_id messages of a FIT file
+ */
+export function decodeFIT(buffer: ArrayBuffer): FitActivity {
+  const view = new DataView(buffer);
+  const activity: FitActivity = { records: [], lapStartTimes: [] };
+  let offset = 0;
+
+  // A file may contain several chained FIT sections, each with its own header
+  while (offset + 12 <= buffer.byteLength) {
+    const headerSize = view.getUint8(offset);
+    const dataSize = view.getUint32(offset + 4, true);
+    const signature = String.fromCharCode(
+      view.getUint8(offset + 8),
+      view.getUint8(offset + 9),
+      view.getUint8(offset + 10),
+      view.getUint8(offset + 11)
+    );
+
+    if (signature !== '.FIT' || (headerSize !== 12 && headerSize !== 14)) {
+      throw new Error('Invalid FIT format: missing .FIT header');
+    }
+
+    const dataStart = offset + headerSize;
+    const dataEnd = dataStart + dataSize;
+
+    if (dataEnd > buffer.byteLength) {
+      throw new Error('Invalid FIT format: file is truncated');
+    }
+
+    decodeMessages(view, dataStart, dataEnd, activity);
+
+    // Skip the 2-byte file CRC
+    offset = dataEnd + 2;
+  }
+
+  return activity;
+}
+
+/**
+ * Decode the data records between `start` and `end`
+ */
+function decodeMessages(view: DataView, start: number, end: number, activity: FitActivity): void {
+  const definitions = new Map<number, MessageDefinition>();
+  let lastTimestamp = 0;
+  let offset = start;
+
+  while (offset < end) {
+    const recordHeader = view.getUint8(offset++);
+
+    // Compressed timestamp header: 2-bit local type, 5-bit offset from the last timestamp
+    if (recordHeader & 0x80) {
+      const localType = (recordHeader >> 5) & 0x03;
+      const timeOffset = recordHeader & 0x1f;
+      const definition = definitions.get(localType);
+      if (!definition) throw new Error('Invalid FIT format: undefined local message type');
+
+      lastTimestamp = timeOffset >= (lastTimestamp & 0x1f)
+        ? (lastTimestamp & ~0x1f) + timeOffset
+        : (lastTimestamp & ~0x1f) + timeOffset + 0x20;
+
+      const message = readMessage(view, offset, definition);
+      offset += messageSize(definition);
+      message.set(FIELD_TIMESTAMP, lastTimestamp);
+      handleMessage(definition.globalMessageNumber, message, activity);
+      continue;
+    }
+
+    const localType = recordHeader & 0x0f;
+
+    if (recordHeader & 0x40) {
+      // Definition message
+      const hasDeveloperData = (recordHeader & 0x20) !== 0;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalMessageNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          number: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2) & 0x1f
+        });
+        offset += 3;
+      }
+
+      let developerDataSize = 0;
+      if (hasDeveloperData) {
+        const developerFieldCount = view.getUint8(offset++);
+        for (let i = 0; i < developerFieldCount; i++) {
+          developerDataSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, { globalMessageNumber, littleEndian, fields, developerDataSize });
+    } else {
+      // Data message
+      const definition = definitions.get(localType);
+      if (!definition) throw new Error('Invalid FIT format: undefined local message type');
+
+      const message = readMessage(view, offset, definition);
+      offset += messageSize(definition);
+
+      const timestamp = message.get(FIELD_TIMESTAMP);
+      if (timestamp !== undefined) lastTimestamp = timestamp;
+
+      handleMessage(definition.globalMessageNumber, message, activity);
+    }
+  }
+}
+
+/**
+ * Read the scalar fields of a data message; arrays, strings and invalid values are skipped
+ */
+function readMessage(view: DataView, offset: number, definition: MessageDefinition): FitMessage {
+  const message: FitMessage = new Map();
+
+  definition.fields.forEach(field => {
+    const baseType = BASE_TYPES[field.baseType];
+
+    if (baseType && baseType.size === field.size) {
+      const value = baseType.read(view, offset, definition.littleEndian);
+      if (value !== baseType.invalid && !isNaN(value)) {
+        message.set(field.number, value);
+      }
+    }
+
+    offset += field.size;
+  });
+
+  return message;
+}
+
+/**
+ * Total byte size of a data message described by a definition
+ */
+function messageSize(definition: MessageDefinition): number {
+  return definition.fields.reduce((sum, field) => sum + field.size, 0) + definition.developerDataSize;
+}
+
+/**
+ * Collect the messages we convert into GPX data
+ */
+function handleMessage(globalMessageNumber: number, message: FitMessage, activity: FitActivity): void {
+  switch (globalMessageNumber) {
+    case MESG_RECORD: {
+      const lat = message.get(FIELD_RECORD_POSITION_LAT);
+      const lon = message.get(FIELD_RECORD_POSITION_LONG);
+      if (lat === undefined || lon === undefined) return;
+
+      // Altitude is stored with scale 5 and offset 500 m
+      const rawAltitude = message.get(FIELD_RECORD_ENHANCED_ALTITUDE) ?? message.get(FIELD_RECORD_ALTITUDE);
+      const timestamp = message.get(FIELD_TIMESTAMP);
+
+      // Speed is stored in mm/s
+      const rawSpeed = message.get(FIELD_RECORD_ENHANCED_SPEED) ?? message.get(FIELD_RECORD_SPEED);
+      const sensors: GPXSensorData = {
+        hr: message.get(FIELD_RECORD_HEART_RATE),
+        cad: message.get(FIELD_RECORD_CADENCE),
+        atemp: message.get(FIELD_RECORD_TEMPERATURE),
+        power: message.get(FIELD_RECORD_POWER),
+        speed: rawSpeed !== undefined ? rawSpeed / 1000 : undefined
+      };
+
+      activity.records.push({
+        lat: lat * SEMICIRCLES_TO_DEGREES,
+        lon: lon * SEMICIRCLES_TO_DEGREES,
+        ele: rawAltitude !== undefined ? rawAltitude / 5 - 500 : undefined,
+        time: timestamp !== undefined ? fitTimeToDate(timestamp) : undefined,
+        sensors: Object.values(sensors).some(value => value !== undefined) ? sensors : undefined
+      });
+      break;
+    }
+    case MESG_LAP: {
+      const startTime = message.get(FIELD_LAP_START_TIME);
+      if (startTime !== undefined) activity.lapStartTimes.push(fitTimeToDate(startTime));
+      break;
+    }
+    case MESG_FILE_ID: {
+      const timeCreated = message.get(FIELD_FILE_ID_TIME_CREATED);
+      if (timeCreated !== undefined) activity.timeCreated = fitTimeToDate(timeCreated);
+      break;
+    }
+  }
+}
+
+/**
+ * Split records into lap segments using the lap start times
+ */
+function splitByLaps(records: GPXPoint[], lapStartTimes: Date[]): GPXPoint[][] {
+  const boundaries = lapStartTimes
+    .map(time => time.getTime())
+    .sort((a, b) => a - b)
+    .slice(1); // The first lap starts with the first record
+
+  const segments: GPXPoint[][] = [[]];
+  let nextBoundary = 0;
+
+  records.forEach(record => {
+    const time = record.time?.getTime();
+
+    while (time !== undefined && nextBoundary < boundaries.length && time >= boundaries[nextBoundary]) {
+      if (segments[segments.length - 1].length > 0) segments.push([]);
+      nextBoundary++;
+    }
+
+    segments[segments.length - 1].push(record);
+  });
+
+  return segments;
+}
+
+/**
+ * Convert FIT seconds to a Date
+ */
+function fitTimeToDate(fitTime: number): Date {
+  return new Date((fitTime + FIT_EPOCH_OFFSET) * 1000);
+}
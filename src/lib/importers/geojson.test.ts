@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { parseGeoJSONContent } from './geojson';
+
+describe('parseGeoJSONContent', () => {
+  it('reads a LineString feature as a track with elevation and per-vertex times', () => {
+    const data = parseGeoJSONContent(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        properties: { name: 'Evening run', coordTimes: ['2024-01-01T18:00:00Z', '2024-01-01T18:00:30Z'] },
+        geometry: { type: 'LineString', coordinates: [[0.1, 51, 20], [0.1, 51.001, 22]] }
+      }]
+    }));
+
+    expect(data.tracks).toHaveLength(1);
+    expect(data.tracks[0].name).toBe('Evening run');
+    expect(data.tracks[0].points[1]).toMatchObject({ lat: 51.001, lon: 0.1, ele: 22 });
+    expect(data.tracks[0].points[1].time).toEqual(new Date('2024-01-01T18:00:30Z'));
+    expect(data.metadata?.name).toBe('Evening run');
+  });
+
+  it('makes each part of a MultiLineString a segment', () => {
+    const data = parseGeoJSONContent(JSON.stringify({
+      type: 'MultiLineString',
+      coordinates: [[[0.1, 51], [0.1, 51.001]], [[0.2, 51], [0.2, 51.001], [0.2, 51.002]]]
+    }));
+
+    expect(data.tracks[0].segments.map(segment => segment.length)).toEqual([2, 3]);
+    expect(data.tracks[0].points).toHaveLength(5);
+  });
+
+  it('reads Point features as waypoints, including inside geometry collections', () => {
+    const data = parseGeoJSONContent(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: null, geometry: { type: 'LineString', coordinates: [[0.1, 51], [0.1, 51.01]] } },
+        {
+          type: 'Feature',
+          properties: { name: 'Summit', description: 'Trig point', sym: 'Summit' },
+          geometry: { type: 'GeometryCollection', geometries: [{ type: 'Point', coordinates: [0.1, 51.005, 180] }] }
+        }
+      ]
+    }));
+
+    expect(data.waypoints).toHaveLength(1);
+    expect(data.waypoints![0]).toMatchObject({ lat: 51.005, lon: 0.1, ele: 180, name: 'Summit', desc: 'Trig point', sym: 'Summit' });
+  });
+
+  it('rejects invalid JSON, missing types and files without lines', () => {
+    expect(() => parseGeoJSONContent('{')).toThrow('Invalid JSON format');
+    expect(() => parseGeoJSONContent('{}')).toThrow('missing type');
+    expect(() => parseGeoJSONContent('{"type":"Point","coordinates":[0.1,51]}')).toThrow('No LineString features');
+  });
+});
@@ -0,0 +1,157 @@
+import type { GPXData, GPXPoint, GPXTrack, GPXWaypoint } from '../../types';
+import type { RouteImporter } from './types';
+import { decodeText, parseOptionalDate } from './xml-utils';
+
+type Position = number[];
+
+interface GeoJSONGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJSONGeometry[];
+}
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  geometry: GeoJSONGeometry | null;
+  properties?: {
+    name?: string;
+    // Per-vertex timestamps as written by togeojson and similar converters
+    coordTimes?: string[] | string[][];
+    [key: string]: unknown;
+  } | null;
+}
+
+/**
+ * GeoJSON LineString/MultiLineString features (MultiLineString parts become segments)
+ */
+export const geojsonImporter: RouteImporter = {
+  format: 'geojson',
+  label: 'GeoJSON',
+  extensions: ['.geojson', '.json'],
+  sniff: (_bytes, head) => {
+    const trimmed = head.trimStart();
+    return trimmed.startsWith('{') && /"type"\s*:\s*"(FeatureCollection|Feature|LineString|MultiLineString)"/.test(head);
+  },
+  parse: async (buffer) => parseGeoJSONContent(decodeText(buffer))
+};
+
+/**
+ * Parse GeoJSON content
+ */
+export function parseGeoJSONContent(jsonContent: string): GPXData {
+  let geojson: { type?: string; features?: GeoJSONFeature[]; name?: string };
+
+  try {
+    geojson = JSON.parse(jsonContent);
+  } catch {
+    throw new Error('Invalid JSON format');
+  }
+
+  const features = toFeatures(geojson);
+  const tracks: GPXTrack[] = [];
+  const waypoints: GPXWaypoint[] = [];
+
+  features.forEach(feature => {
+    const name = typeof feature.properties?.name === 'string' ? feature.properties.name : undefined;
+    const coordTimes = feature.properties?.coordTimes;
+
+    flattenGeometry(feature.geometry).forEach(geometry => {
+      switch (geometry.type) {
+        case 'LineString': {
+          const times = Array.isArray(coordTimes?.[0]) ? undefined : coordTimes as string[] | undefined;
+          const points = toPoints(geometry.coordinates as Position[], times);
+          if (points.length > 0) tracks.push({ name, points, segments: [points] });
+          break;
+        }
+        case 'MultiLineString': {
+          const segments = (geometry.coordinates as Position[][])
+            .map((line, index) => {
+              const times = Array.isArray(coordTimes?.[index]) ? coordTimes[index] as string[] : undefined;
+              return toPoints(line, times);
+            })
+            .filter(points => points.length > 0);
+          if (segments.length > 0) tracks.push({ name, points: segments.flat(), segments });
+          break;
+        }
+        case 'Point':
+          toPoints([geometry.coordinates as Position]).forEach(point => {
+            waypoints.push({
+              ...point,
+              name,
+              desc: getStringProperty(feature, 'desc') ?? getStringProperty(feature, 'description'),
+              sym: getStringProperty(feature, 'sym'),
+              type: getStringProperty(feature, 'type')
+            });
+          });
+          break;
+      }
+    });
+  });
+
+  if (tracks.length === 0) {
+    throw new Error('No LineString features found in GeoJSON file');
+  }
+
+  return {
+    tracks,
+    routes: [],
+    waypoints,
+    metadata: { name: geojson.name || tracks[0].name }
+  };
+}
+
+/**
+ * Normalise a FeatureCollection, Feature or bare geometry into a feature list
+ */
+function toFeatures(geojson: { type?: string; features?: GeoJSONFeature[] }): GeoJSONFeature[] {
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      return geojson.features || [];
+    case 'Feature':
+      return [geojson as GeoJSONFeature];
+    case undefined:
+      throw new Error('Invalid GeoJSON format: missing type');
+    default:
+      return [{ type: 'Feature', geometry: geojson as GeoJSONGeometry, properties: null }];
+  }
+}
+
+/**
+ * Read a string property of a feature, ignoring values of other types
+ */
+function getStringProperty(feature: GeoJSONFeature, key: string): string | undefined {
+  const value = feature.properties?.[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Expand GeometryCollections into their member geometries
+ */
+function flattenGeometry(geometry: GeoJSONGeometry | null): GeoJSONGeometry[] {
+  if (!geometry) return [];
+  if (geometry.type === 'GeometryCollection') {
+    return (geometry.geometries || []).flatMap(flattenGeometry);
+  }
+  return [geometry];
+}
+
+/**
+ * Convert [lon, lat, ele?] positions into points
+ */
+function toPoints(positions: Position[], times?: string[]): GPXPoint[] {
+  const points: GPXPoint[] = [];
+
+  (positions || []).forEach((position, index) => {
+    const [lon, lat, ele] = position;
+    if (typeof lat !== 'number' || typeof lon !== 'number') return;
+
+    points.push({
+      lat,
+      lon,
+      ele: typeof ele === 'number' ? ele : undefined,
+      time: parseOptionalDate(times?.[index])
+    });
+  });
+
+  return points;
+}
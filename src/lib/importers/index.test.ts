@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { detectImporter, getFormatLabel, getSupportedExtensions, registerImporter } from './index';
+import type { RouteImporter } from './index';
+
+function encode(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+const GPX = '<?xml version="1.0"?><gpx version="1.1"><trk><trkseg></trkseg></trk></gpx>';
+const TCX = '<?xml version="1.0"?><TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">';
+const GEOJSON = '{"type":"FeatureCollection","features":[]}';
+
+describe('importer registry', () => {
+  it('accepts the extensions of every built-in format', () => {
+    expect(getSupportedExtensions()).toEqual(
+      expect.arrayContaining(['.gpx', '.tcx', '.kml', '.kmz', '.geojson', '.json', '.fit'])
+    );
+    expect(getFormatLabel('fit')).toBe('Garmin FIT');
+  });
+
+  it('detects formats from the extension confirmed by the content', () => {
+    expect(detectImporter('ride.gpx', encode(GPX))?.format).toBe('gpx');
+    expect(detectImporter('ride.tcx', encode(TCX))?.format).toBe('tcx');
+    expect(detectImporter('ride.geojson', encode(GEOJSON))?.format).toBe('geojson');
+  });
+
+  it('falls back to the content when the extension is missing or wrong', () => {
+    expect(detectImporter('download', encode(TCX))?.format).toBe('tcx');
+    expect(detectImporter('ride.gpx', encode(GEOJSON))?.format).toBe('geojson');
+    expect(detectImporter('notes.txt', encode('hello'))).toBeNull();
+  });
+
+  it('detects registered importers after the built-in ones', () => {
+    const importer: RouteImporter = {
+      format: 'gpx',
+      label: 'Test format',
+      extensions: ['.test-route'],
+      sniff: (_bytes, head) => head.startsWith('TEST'),
+      parse: async () => ({ tracks: [], routes: [] })
+    };
+    registerImporter(importer);
+
+    expect(getSupportedExtensions()).toContain('.test-route');
+    expect(detectImporter('ride.test-route', encode('TEST'))).toBe(importer);
+    expect(detectImporter('ride.gpx', encode(GPX))?.label).toBe('GPX');
+  });
+});
@@ -0,0 +1,123 @@
+import type { RouteFileFormat } from '../../types';
+import type { ImportResult, RouteImporter } from './types';
+import { parseGPXContent } from '../gpx-parser';
+import { decodeText } from './xml-utils';
+import { tcxImporter } from './tcx';
+import { kmlImporter, kmzImporter } from './kml';
+import { geojsonImporter } from './geojson';
+import { fitImporter } from './fit';
+
+export type { ImportResult, RouteImporter } from './types';
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+// Number of bytes decoded as text for content sniffing
+const SNIFF_LENGTH = 4096;
+
+const gpxImporter: RouteImporter = {
+  format: 'gpx',
+  label: 'GPX',
+  extensions: ['.gpx'],
+  sniff: (_bytes, head) => head.includes('<gpx'),
+  parse: async (buffer) => parseGPXContent(decodeText(buffer))
+};
+
+const importers: RouteImporter[] = [];
+
+/**
+ * Register an importer. Detection tries importers in the order they were registered.
+ */
+export function registerImporter(importer: RouteImporter): void {
+  importers.push(importer);
+}
+
+registerImporter(gpxImporter);
+registerImporter(tcxImporter);
+registerImporter(kmlImporter);
+registerImporter(kmzImporter);
+registerImporter(geojsonImporter);
+registerImporter(fitImporter);
+
+/**
+ * All file extensions accepted by the registered importers
+ */
+export function getSupportedExtensions(): string[] {
+  return Array.from(new Set(importers.flatMap(importer => importer.extensions)));
+}
+
+/**
+ * Human-readable label for a detected format
+ */
+export function getFormatLabel(format: RouteFileFormat): string {
+  return importers.find(importer => importer.format === format)?.label || format.toUpperCase();
+}
+
+/**
+ * Validate a route file by extension and size
+ */
+export function validateRouteFile(file: File): boolean {
+  const fileName = file.name.toLowerCase();
+  const isValidExtension = getSupportedExtensions().some(ext => fileName.endsWith(ext));
+  const isValidSize = file.size > 0 && file.size < MAX_FILE_SIZE;
+
+  return isValidExtension && isValidSize;
+}
+
+/**
+ * Detect the file format from its extension, confirmed by content sniffing.
+ * Falls back to sniffing alone when the extension is missing or misleading.
+ */
+export function detectImporter(fileName: string, buffer: ArrayBuffer): RouteImporter | null {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, SNIFF_LENGTH));
+  const head = new TextDecoder('utf-8').decode(bytes);
+  const lowerName = fileName.toLowerCase();
+
+  const byExtension = importers.filter(importer =>
+    importer.extensions.some(ext => lowerName.endsWith(ext))
+  );
+  const confirmed = byExtension.find(importer => importer.sniff(bytes, head));
+  if (confirmed) return confirmed;
+
+  return importers.find(importer => importer.sniff(bytes, head)) || null;
+}
+
+/**
+ * Detect the format of a file from its name and first bytes, without reading all of it
+ */
+export async function detectFileImporter(file: File): Promise<RouteImporter | null> {
+  const head = await file.slice(0, SNIFF_LENGTH).arrayBuffer();
+  return detectImporter(file.name, head);
+}
+
+/**
+ * Read and convert a GPX, TCX, KML/KMZ, GeoJSON or FIT file into GPX data
+ */
+export async function importRouteFile(file: File): Promise<ImportResult> {
+  const buffer = await readFileAsArrayBuffer(file);
+  const importer = detectImporter(file.name, buffer);
+
+  if (!importer) {
+    throw new Error('Unrecognised file format');
+  }
+
+  try {
+    const data = await importer.parse(buffer);
+    return { data, format: importer.format };
+  } catch (error) {
+    throw new Error(`Failed to parse ${importer.label} file: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Read a file into memory
+ */
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error('Failed to read file'));
+
+    reader.readAsArrayBuffer(file);
+  });
+}
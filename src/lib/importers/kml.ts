@@ -0,0 +1,148 @@
+import JSZip from 'jszip';
+import type { GPXData, GPXPoint, GPXTrack, GPXWaypoint } from '../../types';
+import type { RouteImporter } from './types';
+import {
+  decodeText,
+  parseXMLDocument,
+  getElements,
+  getChildText,
+  parseOptionalDate
+} from './xml-utils';
+
+/**
+ * Google Earth KML documents
+ */
+export const kmlImporter: RouteImporter = {
+  format: 'kml',
+  label: 'Google Earth KML',
+  extensions: ['.kml'],
+  sniff: (_bytes, head) => head.includes('<kml'),
+  parse: async (buffer) => parseKMLContent(decodeText(buffer))
+};
+
+/**
+ * Zipped KML (KMZ) archives
+ */
+export const kmzImporter: RouteImporter = {
+  format: 'kmz',
+  label: 'Google Earth KMZ',
+  extensions: ['.kmz'],
+  // ZIP local file header signature "PK\x03\x04"
+  sniff: (bytes) =>
+    bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04,
+  parse: async (buffer) => {
+    const zip = await JSZip.loadAsync(buffer);
+
+    // By convention the main document is doc.kml, but any root .kml file will do
+    const kmlFiles = Object.values(zip.files).filter(
+      entry => !entry.dir && entry.name.toLowerCase().endsWith('.kml')
+    );
+    const mainFile = kmlFiles.find(entry => entry.name.toLowerCase() === 'doc.kml') || kmlFiles[0];
+
+    if (!mainFile) {
+      throw new Error('No KML document found in KMZ archive');
+    }
+
+    return parseKMLContent(await mainFile.async('string'));
+  }
+};
+
+/**
+ * Parse KML XML content
+ */
+export function parseKMLContent(xmlContent: string): GPXData {
+  const xmlDoc = parseXMLDocument(xmlContent);
+
+  if (getElements(xmlDoc, 'kml').length === 0) {
+    throw new Error('Invalid KML format: missing kml element');
+  }
+
+  const tracks: GPXTrack[] = [];
+  const waypoints: GPXWaypoint[] = [];
+
+  getElements(xmlDoc, 'Placemark').forEach(placemarkElement => {
+    const name = getChildText(placemarkElement, 'name');
+    const segments: GPXPoint[][] = [];
+
+    // A placemark may hold several lines inside a <MultiGeometry>; each becomes a segment
+    getElements(placemarkElement, 'LineString').forEach(lineElement => {
+      const points = parseCoordinates(getChildText(lineElement, 'coordinates'));
+      if (points.length > 0) segments.push(points);
+    });
+
+    // Google's extended gx:Track stores positions and timestamps separately
+    getElements(placemarkElement, 'Track').forEach(trackElement => {
+      const points = parseGxTrack(trackElement);
+      if (points.length > 0) segments.push(points);
+    });
+
+    if (segments.length > 0) {
+      tracks.push({ name, points: segments.flat(), segments });
+    }
+
+    getElements(placemarkElement, 'Point').forEach(pointElement => {
+      const desc = getChildText(placemarkElement, 'description');
+      parseCoordinates(getChildText(pointElement, 'coordinates')).forEach(point => {
+        waypoints.push({ ...point, name, desc });
+      });
+    });
+  });
+
+  if (tracks.length === 0) {
+    throw new Error('No LineString or gx:Track found in KML file');
+  }
+
+  const documentElement = getElements(xmlDoc, 'Document')[0];
+
+  return {
+    tracks,
+    routes: [],
+    waypoints,
+    metadata: {
+      name: documentElement ? getChildText(documentElement, 'name') : undefined,
+      desc: documentElement ? getChildText(documentElement, 'description') : undefined
+    }
+  };
+}
+
+/**
+ * Parse a KML coordinate list ("lon,lat[,alt]" tuples separated by whitespace)
+ */
+function parseCoordinates(coordinates: string | undefined): GPXPoint[] {
+  if (!coordinates) return [];
+
+  const points: GPXPoint[] = [];
+
+  coordinates.split(/\s+/).forEach(tuple => {
+    if (!tuple) return;
+
+    const [lon, lat, ele] = tuple.split(',').map(parseFloat);
+    if (isNaN(lat) || isNaN(lon)) return;
+
+    points.push({ lat, lon, ele: isNaN(ele) ? undefined : ele });
+  });
+
+  return points;
+}
+
+/**
+ * Parse a gx:Track (<when> and "lon lat alt" <gx:coord> elements in matching order)
+ */
+function parseGxTrack(trackElement: Element): GPXPoint[] {
+  const whenElements = getElements(trackElement, 'when');
+  const points: GPXPoint[] = [];
+
+  getElements(trackElement, 'coord').forEach((coordElement, index) => {
+    const [lon, lat, ele] = (coordElement.textContent || '').trim().split(/\s+/).map(parseFloat);
+    if (isNaN(lat) || isNaN(lon)) return;
+
+    points.push({
+      lat,
+      lon,
+      ele: isNaN(ele) ? undefined : ele,
+      time: parseOptionalDate(whenElements[index]?.textContent?.trim())
+    });
+  });
+
+  return points;
+}
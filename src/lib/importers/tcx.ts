@@ -0,0 +1,132 @@
+import type { GPXData, GPXPoint, GPXSensorData, GPXTrack, GPXWaypoint } from '../../types';
+import type { RouteImporter } from './types';
+import {
+  decodeText,
+  parseXMLDocument,
+  getElements,
+  getElementText,
+  getChildText,
+  parseOptionalNumber,
+  parseOptionalDate
+} from './xml-utils';
+
+/**
+ * Garmin Training Center (TCX) courses and activities
+ */
+export const tcxImporter: RouteImporter = {
+  format: 'tcx',
+  label: 'Garmin TCX',
+  extensions: ['.tcx'],
+  sniff: (_bytes, head) => head.includes('<TrainingCenterDatabase'),
+  parse: async (buffer) => parseTCXContent(decodeText(buffer))
+};
+
+/**
+ * Parse TCX XML content
+ */
+export function parseTCXContent(xmlContent: string): GPXData {
+  const xmlDoc = parseXMLDocument(xmlContent);
+
+  if (getElements(xmlDoc, 'TrainingCenterDatabase').length === 0) {
+    throw new Error('Invalid TCX format: missing TrainingCenterDatabase element');
+  }
+
+  const tracks: GPXTrack[] = [];
+
+  // Courses carry their name in <Name>, activities are identified by <Id>
+  getElements(xmlDoc, 'Course').forEach(courseElement => {
+    const segments = extractSegments(courseElement);
+    if (segments.length > 0) {
+      tracks.push({ name: getChildText(courseElement, 'Name'), points: segments.flat(), segments });
+    }
+  });
+
+  getElements(xmlDoc, 'Activity').forEach(activityElement => {
+    const segments = extractSegments(activityElement);
+    if (segments.length > 0) {
+      tracks.push({ name: getChildText(activityElement, 'Id'), points: segments.flat(), segments });
+    }
+  });
+
+  if (tracks.length === 0) {
+    throw new Error('No courses or activities with positions found in TCX file');
+  }
+
+  const waypoints: GPXWaypoint[] = [];
+  getElements(xmlDoc, 'CoursePoint').forEach(coursePointElement => {
+    const point = parsePosition(coursePointElement);
+    if (point) {
+      waypoints.push({
+        ...point,
+        name: getChildText(coursePointElement, 'Name'),
+        desc: getChildText(coursePointElement, 'Notes'),
+        type: getChildText(coursePointElement, 'PointType')
+      });
+    }
+  });
+
+  return {
+    tracks,
+    routes: [],
+    waypoints,
+    metadata: { name: tracks[0].name }
+  };
+}
+
+/**
+ * Extract positioned trackpoints from a course or activity, one segment per <Track>
+ */
+function extractSegments(parent: Element): GPXPoint[][] {
+  const segments: GPXPoint[][] = [];
+
+  // Activities record a new <Track> per lap and after each pause
+  getElements(parent, 'Track').forEach(trackElement => {
+    const segment: GPXPoint[] = [];
+
+    getElements(trackElement, 'Trackpoint').forEach(trackpointElement => {
+      // Trackpoints without a <Position> (e.g. indoor or paused) are skipped
+      const point = parsePosition(trackpointElement);
+      if (point) segment.push(point);
+    });
+
+    if (segment.length > 0) segments.push(segment);
+  });
+
+  return segments;
+}
+
+/**
+ * Parse a Position/AltitudeMeters/Time group into a point
+ */
+function parsePosition(element: Element): GPXPoint | null {
+  const positionElement = getElements(element, 'Position')[0];
+  if (!positionElement) return null;
+
+  const lat = parseOptionalNumber(getElementText(positionElement, 'LatitudeDegrees'));
+  const lon = parseOptionalNumber(getElementText(positionElement, 'LongitudeDegrees'));
+
+  if (lat === undefined || lon === undefined) return null;
+
+  return {
+    lat,
+    lon,
+    ele: parseOptionalNumber(getChildText(element, 'AltitudeMeters')),
+    time: parseOptionalDate(getChildText(element, 'Time')),
+    sensors: parseSensors(element)
+  };
+}
+
+/**
+ * Parse heart rate, cadence and the ActivityExtension speed/power values of a trackpoint
+ */
+function parseSensors(trackpointElement: Element): GPXSensorData | undefined {
+  const heartRateElement = getElements(trackpointElement, 'HeartRateBpm')[0];
+  const sensors: GPXSensorData = {
+    hr: heartRateElement ? parseOptionalNumber(getElementText(heartRateElement, 'Value')) : undefined,
+    cad: parseOptionalNumber(getChildText(trackpointElement, 'Cadence') ?? getElementText(trackpointElement, 'RunCadence')),
+    power: parseOptionalNumber(getElementText(trackpointElement, 'Watts')),
+    speed: parseOptionalNumber(getElementText(trackpointElement, 'Speed'))
+  };
+
+  return Object.values(sensors).some(value => value !== undefined) ? sensors : undefined;
+}
@@ -0,0 +1,21 @@
+import type { GPXData, RouteFileFormat } from '../../types';
+
+/**
+ * A converter from a course/activity file format into GPX data
+ */
+export interface RouteImporter {
+  format: RouteFileFormat;
+  label: string;
+  extensions: string[];
+  /**
+   * Check whether the file content looks like this format.
+   * `head` is the start of the file decoded as text.
+   */
+  sniff(bytes: Uint8Array, head: string): boolean;
+  parse(buffer: ArrayBuffer): Promise<GPXData>;
+}
+
+export interface ImportResult {
+  data: GPXData;
+  format: RouteFileFormat;
+}
@@ -0,0 +1,61 @@
+/**
+ * Decode a file buffer as UTF-8 text
+ */
+export function decodeText(buffer: ArrayBuffer): string {
+  return new TextDecoder('utf-8').decode(buffer);
+}
+
+/**
+ * Parse XML content, throwing on malformed documents
+ */
+export function parseXMLDocument(content: string): Document {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(content, 'text/xml');
+
+  if (xmlDoc.querySelector('parsererror')) {
+    throw new Error('Invalid XML format');
+  }
+
+  return xmlDoc;
+}
+
+/**
+ * Find descendant elements by local name, ignoring namespace prefixes (e.g. `gx:Track`)
+ */
+export function getElements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+/**
+ * Read the text of the first descendant element with the given local name
+ */
+export function getElementText(parent: Document | Element, localName: string): string | undefined {
+  const text = getElements(parent, localName)[0]?.textContent?.trim();
+  return text || undefined;
+}
+
+/**
+ * Read the text of a direct child element with the given local name
+ */
+export function getChildText(parent: Element, localName: string): string | undefined {
+  const child = Array.from(parent.children).find(c => c.localName === localName);
+  return child?.textContent?.trim() || undefined;
+}
+
+/**
+ * Parse an optional number, returning undefined for missing or invalid values
+ */
+export function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = parseFloat(value);
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * Parse an optional date, returning undefined for missing or invalid values
+ */
+export function parseOptionalDate(value: string | undefined): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { GPXPoint, StreetViewImage } from '../types';
+import { applyOverlapReuse, detectOverlaps, summarizeOverlaps } from './overlaps';
+import { generateStreetViewPlaceholders } from './street-view-api';
+
+// Corners of a ~550 m square, anticlockwise from the south-west
+const SQUARE: GPXPoint[] = [
+  { lat: 51, lon: 0.1 },
+  { lat: 51, lon: 0.108 },
+  { lat: 51.005, lon: 0.108 },
+  { lat: 51.005, lon: 0.1 },
+  { lat: 51, lon: 0.1 }
+];
+
+async function framesFor(segments: GPXPoint[][]): Promise<StreetViewImage[]> {
+  return generateStreetViewPlaceholders(segments, {
+    mode: 'interval',
+    intervalDistance: 50,
+    creditBudget: 500,
+    timeInterval: 30,
+    minStopDuration: 60,
+    headingLookAhead: 30,
+    simplifyTolerance: 0,
+    simplifyMethod: 'rdp'
+  });
+}
+
+describe('detectOverlaps', () => {
+  it('finds nothing on a route that never comes back', async () => {
+    const images = detectOverlaps(await framesFor([SQUARE.slice(0, 4)]));
+
+    expect(images.every(image => !image.overlap)).toBe(true);
+  });
+
+  it('marks a repeated lap as the same direction, pointing at the first lap', async () => {
+    const images = detectOverlaps(await framesFor([[...SQUARE, ...SQUARE.slice(1)]]));
+    const lapLength = images.find(image => image.overlap)!.distance;
+    const secondLap = images.filter(image => image.distance > lapLength + 100 && image.distance < 2 * lapLength - 100);
+
+    expect(lapLength).toBeGreaterThan(1500);
+    expect(secondLap.every(image => image.overlap?.direction === 'same')).toBe(true);
+    secondLap.forEach(image => {
+      const earlier = images.find(other => other.id === image.overlap!.imageId)!;
+      expect(earlier.overlap).toBeUndefined();
+      expect(Math.abs(image.distance - lapLength - earlier.distance)).toBeLessThanOrEqual(50);
+    });
+  });
+
+  it('marks the return leg of an out-and-back as the opposite direction', async () => {
+    const out = { lat: 51.01, lon: 0.1 };
+    const images = detectOverlaps(await framesFor([[SQUARE[0], out, { lat: 51, lon: 0.1001 }]]));
+    const returning = images.filter(image => image.distance > 1200 && image.distance < 2100);
+
+    expect(returning.length).toBeGreaterThan(0);
+    expect(returning.every(image => image.overlap?.direction === 'opposite')).toBe(true);
+  });
+
+  it('ignores roads that only cross', async () => {
+    // North, then round and back across the first leg heading east
+    const route = [
+      { lat: 51, lon: 0.1 },
+      { lat: 51.01, lon: 0.1 },
+      { lat: 51.01, lon: 0.09 },
+      { lat: 51.005, lon: 0.09 },
+      { lat: 51.005, lon: 0.11 }
+    ];
+    const images = detectOverlaps(await framesFor([route]));
+
+    expect(images.every(image => !image.overlap)).toBe(true);
+  });
+});
+
+describe('applyOverlapReuse', () => {
+  it('reuses the earlier frame only for the chosen directions', async () => {
+    const out = { lat: 51.01, lon: 0.1 };
+    const images = detectOverlaps(await framesFor([[SQUARE[0], out, { lat: 51, lon: 0.1001 }]]));
+
+    const kept = applyOverlapReuse(images, ['same']);
+    expect(kept.every(image => !image.reusedFrom)).toBe(true);
+
+    const reused = applyOverlapReuse(images, ['opposite']);
+    reused.forEach(image => expect(image.reusedFrom).toBe(image.overlap?.imageId));
+
+    const cleared = applyOverlapReuse(reused, []);
+    expect(cleared.every(image => !image.reusedFrom)).toBe(true);
+  });
+});
+
+describe('summarizeOverlaps', () => {
+  it('counts the frames and length of each direction', async () => {
+    const images = detectOverlaps(await framesFor([[...SQUARE, ...SQUARE.slice(1)]]));
+    const summary = summarizeOverlaps(images);
+    const overlapping = images.filter(image => image.overlap);
+
+    expect(summary.same.frames).toBe(overlapping.length);
+    expect(summary.same.length).toBeCloseTo(overlapping[overlapping.length - 1].distance - overlapping[0].distance, 6);
+    expect(summary.opposite).toEqual({ frames: 0, length: 0 });
+  });
+});
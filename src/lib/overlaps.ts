@@ -0,0 +1,224 @@
+import type { OverlapDirection, StreetViewImage } from '../types';
+import { angleDifference, calculateDistance } from './utils';
+
+// Frames within this distance of an earlier stretch of route are considered to be on the same road
+const OVERLAP_DISTANCE = 15; // meters
+// Frames closer together along the route than this are never compared, so a frame does not
+// match its own neighbours
+const MIN_LAP_SEPARATION = 200; // meters
+// Bearings within this angle count as the same direction, and within this angle of a U-turn as opposite
+const DIRECTION_TOLERANCE = 45; // degrees
+// Overlapping stretches shorter than this (e.g. briefly touching an earlier part of the route) are ignored
+const MIN_OVERLAP_LENGTH = 100; // meters
+
+const METERS_PER_DEGREE = 111320;
+
+export interface OverlapSummary {
+  frames: number;
+  length: number; // meters of route covered by the overlapping frames
+}
+
+/**
+ * Mark frames that show a stretch of road an earlier frame already covers, travelling in the same
+ * direction (a repeated lap) or the opposite one (the return leg of an out-and-back). Each overlap
+ * points at the first frame that covered the place, even if it was passed several times since.
+ */
+export function detectOverlaps(images: StreetViewImage[]): StreetViewImage[] {
+  const matches = findNearestEarlierFrames(images);
+  removeShortOverlaps(images, matches);
+
+  return images.map((image, index) => {
+    const match = matches[index];
+    if (!match) return image.overlap ? { ...image, overlap: undefined } : image;
+
+    // Follow the chain back to the frame that first covered this place
+    let target = match.index;
+    let direction = match.direction;
+    while (matches[target]) {
+      const previous = matches[target]!;
+      if (previous.direction === 'opposite') {
+        direction = direction === 'same' ? 'opposite' : 'same';
+      }
+      target = previous.index;
+    }
+
+    return { ...image, overlap: { imageId: images[target].id, direction } };
+  });
+}
+
+/**
+ * Reuse the earlier frame for overlapping frames in the given directions. A repeated lap shows the
+ * earlier frame's image; a return leg faces the other way, so it turns the earlier frame's
+ * panorama around instead.
+ */
+export function applyOverlapReuse(images: StreetViewImage[], directions: OverlapDirection[]): StreetViewImage[] {
+  return images.map(image => {
+    const reusedFrom = image.overlap && directions.includes(image.overlap.direction)
+      ? image.overlap.imageId
+      : undefined;
+    return reusedFrom === image.reusedFrom ? image : { ...image, reusedFrom };
+  });
+}
+
+/**
+ * Number of overlapping frames and the length of route they cover, for each direction
+ */
+export function summarizeOverlaps(images: StreetViewImage[]): Record<OverlapDirection, OverlapSummary> {
+  const summary: Record<OverlapDirection, OverlapSummary> = {
+    same: { frames: 0, length: 0 },
+    opposite: { frames: 0, length: 0 }
+  };
+
+  images.forEach((image, index) => {
+    if (!image.overlap) return;
+
+    const entry = summary[image.overlap.direction];
+    entry.frames++;
+
+    const next = images[index + 1];
+    if (next?.overlap?.direction === image.overlap.direction && next.segmentIndex === image.segmentIndex) {
+      entry.length += next.distance - image.distance;
+    }
+  });
+
+  return summary;
+}
+
+/**
+ * For each frame, the nearest earlier frame on the same stretch of road: the frame must lie within
+ * OVERLAP_DISTANCE of the route through the earlier frame, be far enough back along the route and
+ * face the same or the opposite way. Laps are rarely sampled at the same spots, so the earlier
+ * frame may be up to half its spacing away along the road.
+ * Frames are bucketed in a grid so only neighbouring cells need to be searched.
+ */
+function findNearestEarlierFrames(
+  images: StreetViewImage[]
+): Array<{ index: number; direction: OverlapDirection } | null> {
+  if (images.length === 0) return [];
+
+  const reach = images.map((_, index) => OVERLAP_DISTANCE + getFrameSpacing(images, index) / 2);
+  // Reduced rather than spread, which overflows the call stack on long, densely sampled routes
+  const maxReach = reach.reduce((max, value) => Math.max(max, value), 0);
+
+  // Size longitude cells for the highest latitude on the route, where degrees are shortest
+  const maxLatitude = images.reduce((max, image) => Math.max(max, Math.abs(image.coordinates.lat)), 0);
+  const latCell = maxReach / METERS_PER_DEGREE;
+  const lonCell = latCell / Math.max(Math.cos((maxLatitude * Math.PI) / 180), 0.01);
+  const grid = new Map<string, number[]>();
+
+  return images.map((image, index) => {
+    const { lat, lng } = image.coordinates;
+    const row = Math.floor(lat / latCell);
+    const column = Math.floor(lng / lonCell);
+    let best: { index: number; direction: OverlapDirection; distance: number } | null = null;
+
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dColumn = -1; dColumn <= 1; dColumn++) {
+        (grid.get(`${row + dRow}:${column + dColumn}`) || []).forEach(candidateIndex => {
+          const candidate = images[candidateIndex];
+          if (image.distance - candidate.distance < MIN_LAP_SEPARATION) return;
+
+          const distance = calculateDistance(lat, lng, candidate.coordinates.lat, candidate.coordinates.lng);
+          if (distance > reach[candidateIndex] || (best && distance >= best.distance)) return;
+          if (getDistanceToRoute(images, candidateIndex, image) > OVERLAP_DISTANCE) return;
+
+          const direction = getRelativeDirection(image, candidate);
+          if (direction) {
+            best = { index: candidateIndex, direction, distance };
+          }
+        });
+      }
+    }
+
+    const key = `${row}:${column}`;
+    grid.set(key, [...(grid.get(key) || []), index]);
+
+    return best;
+  });
+}
+
+/**
+ * Distance along the route from a frame to the further of its neighbours in the same segment
+ */
+function getFrameSpacing(images: StreetViewImage[], index: number): number {
+  const image = images[index];
+  const neighbours = [images[index - 1], images[index + 1]]
+    .filter(neighbour => neighbour && neighbour.segmentIndex === image.segmentIndex);
+  return Math.max(0, ...neighbours.map(neighbour => Math.abs(neighbour.distance - image.distance)));
+}
+
+/**
+ * Distance from `target` to the route either side of the frame at `index`
+ * (the straight lines to its neighbours in the same segment)
+ */
+function getDistanceToRoute(images: StreetViewImage[], index: number, target: StreetViewImage): number {
+  const image = images[index];
+  const neighbours = [images[index - 1], images[index + 1]]
+    .filter(neighbour => neighbour && neighbour.segmentIndex === image.segmentIndex);
+  if (neighbours.length === 0) {
+    return calculateDistance(image.coordinates.lat, image.coordinates.lng, target.coordinates.lat, target.coordinates.lng);
+  }
+  return Math.min(...neighbours.map(neighbour => distanceToLeg(target, image, neighbour)));
+}
+
+/**
+ * Distance from `point` to the straight line between two frames, on a flat local projection
+ */
+function distanceToLeg(point: StreetViewImage, from: StreetViewImage, to: StreetViewImage): number {
+  const scale = Math.cos((point.coordinates.lat * Math.PI) / 180) * METERS_PER_DEGREE;
+  const x = (image: StreetViewImage) => (image.coordinates.lng - point.coordinates.lng) * scale;
+  const y = (image: StreetViewImage) => (image.coordinates.lat - point.coordinates.lat) * METERS_PER_DEGREE;
+
+  const dx = x(to) - x(from);
+  const dy = y(to) - y(from);
+  const lengthSquared = dx * dx + dy * dy;
+  const fraction = lengthSquared > 0
+    ? Math.min(1, Math.max(0, (-x(from) * dx - y(from) * dy) / lengthSquared))
+    : 0;
+
+  return Math.hypot(x(from) + dx * fraction, y(from) + dy * fraction);
+}
+
+/**
+ * Whether two frames face the same way, opposite ways, or neither (e.g. where roads cross)
+ */
+function getRelativeDirection(a: StreetViewImage, b: StreetViewImage): OverlapDirection | null {
+  if (a.heading === undefined || b.heading === undefined) return null;
+
+  const difference = Math.abs(angleDifference(a.heading, b.heading));
+  if (difference <= DIRECTION_TOLERANCE) return 'same';
+  if (difference >= 180 - DIRECTION_TOLERANCE) return 'opposite';
+  return null;
+}
+
+/**
+ * Drop runs of consecutive overlapping frames (in the same direction) covering less than
+ * MIN_OVERLAP_LENGTH of route
+ */
+function removeShortOverlaps(
+  images: StreetViewImage[],
+  matches: Array<{ index: number; direction: OverlapDirection } | null>
+): void {
+  let start = 0;
+
+  while (start < matches.length) {
+    const direction = matches[start]?.direction;
+    if (!direction) {
+      start++;
+      continue;
+    }
+
+    let end = start;
+    while (end + 1 < matches.length && matches[end + 1]?.direction === direction) {
+      end++;
+    }
+
+    // A run covers the route up to the frame after it, so single frames of coarse sampling still count
+    const runEnd = images[Math.min(end + 1, images.length - 1)].distance;
+    if (runEnd - images[start].distance < MIN_OVERLAP_LENGTH) {
+      for (let i = start; i <= end; i++) matches[i] = null;
+    }
+
+    start = end + 1;
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { GPXData, GPXPoint } from '../types';
+import { applyRouteEdit, clampRange, getRouteLength, reverseSegments, trimSegments } from './route-edit';
+
+const START = Date.parse('2024-01-01T00:00:00Z');
+
+// ~111 m between points heading north, 20 seconds apart
+function line(count: number, lat = 51): GPXPoint[] {
+  return Array.from({ length: count }, (_, index) => ({
+    lat: lat + index * 0.001,
+    lon: 0.1,
+    time: new Date(START + index * 20000)
+  }));
+}
+
+describe('reverseSegments', () => {
+  it('reverses the segments and their points, dropping timestamps', () => {
+    const first = line(3);
+    const second = line(2, 52);
+    const reversed = reverseSegments([first, second]);
+
+    expect(reversed.map(segment => segment.map(point => point.lat))).toEqual([[52.001, 52], [51.002, 51.001, 51]]);
+    expect(reversed.flat().every(point => point.time === undefined)).toBe(true);
+    expect(first[0].time).toBeDefined();
+  });
+});
+
+describe('trimSegments', () => {
+  it('keeps the part between two distances, cutting the legs at the ends', () => {
+    const points = line(11);
+    const length = getRouteLength([points]);
+    const [trimmed] = trimSegments([points], { start: 150, end: 500 });
+
+    expect(getRouteLength([trimmed])).toBeCloseTo(350, 0);
+    expect(trimmed[0].lat).toBeCloseTo(51 + 0.001 * (150 / (length / 10)), 6);
+    expect(trimmed.slice(1, -1)).toEqual(points.slice(2, 5));
+  });
+
+  it('counts gaps between segments and drops segments outside the range', () => {
+    const first = line(3);
+    const second = line(3, 51.01);
+    const trimmed = trimSegments([first, second], { start: 1000, end: 2000 });
+
+    expect(trimmed).toHaveLength(1);
+    expect(trimmed[0][0]).toEqual(second[0]);
+  });
+});
+
+describe('clampRange', () => {
+  it('clamps the range to the route, or returns null for the whole route', () => {
+    expect(clampRange({ start: -50, end: 400 }, 1000)).toEqual({ start: 0, end: 400 });
+    expect(clampRange({ start: 100, end: 5000 }, 1000)).toEqual({ start: 100, end: 1000 });
+    expect(clampRange({ start: 0, end: 1000 }, 1000)).toBeNull();
+  });
+});
+
+describe('applyRouteEdit', () => {
+  const data: GPXData = {
+    tracks: [{ name: 'Ride', points: line(11), segments: [line(11)] }],
+    routes: [{ name: 'Plan', points: line(5, 52) }],
+    waypoints: [{ lat: 51.005, lon: 0.1, name: 'Cafe' }]
+  };
+
+  it('edits only the chosen source', () => {
+    const edited = applyRouteEdit(data, { type: 'track', index: 0 }, { reversed: true, range: { start: 0, end: 500 } });
+
+    expect(edited.tracks[0].segments[0][0].lat).toBe(51.01);
+    expect(edited.tracks[0].points).toEqual(edited.tracks[0].segments.flat());
+    expect(edited.routes).toBe(data.routes);
+    expect(edited.waypoints).toBe(data.waypoints);
+  });
+
+  it('edits routes as well as tracks', () => {
+    const edited = applyRouteEdit(data, { type: 'route', index: 0 }, { reversed: true, range: null });
+
+    expect(edited.routes[0].points.map(point => point.lat)).toEqual([52.004, 52.003, 52.002, 52.001, 52]);
+    expect(edited.tracks).toBe(data.tracks);
+  });
+
+  it('rejects ranges that are too short', () => {
+    expect(() => applyRouteEdit(data, { type: 'track', index: 0 }, { reversed: false, range: { start: 100, end: 150 } }))
+      .toThrow('at least 100m');
+  });
+});
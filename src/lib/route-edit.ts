@@ -0,0 +1,116 @@
+import type { GPXData, GPXPoint, GPXSource, RouteEdit, RouteRange } from '../types';
+import { getSourceSegments } from './gpx-parser';
+import { interpolatePoint } from './street-view-api';
+import { calculateDistance } from './utils';
+
+// Shortest part of the route that can be selected
+export const MIN_RANGE_LENGTH = 100; // meters
+
+/**
+ * Reverse and trim the selected track or route. The rest of the file (other tracks and routes,
+ * waypoints and metadata) is left as it is.
+ */
+export function applyRouteEdit(data: GPXData, source: GPXSource, edit: RouteEdit): GPXData {
+  let segments = getSourceSegments(data, source).filter(segment => segment.length > 0);
+  if (edit.reversed) {
+    segments = reverseSegments(segments);
+  }
+  if (edit.range) {
+    if (edit.range.end - edit.range.start < MIN_RANGE_LENGTH) {
+      throw new Error(`The selected part of the route must be at least ${MIN_RANGE_LENGTH}m long`);
+    }
+    segments = trimSegments(segments, edit.range);
+  }
+  if (segments.length === 0) {
+    throw new Error('The selected part of the route does not contain any points');
+  }
+
+  if (source.type === 'track') {
+    return {
+      ...data,
+      tracks: data.tracks.map((track, index) =>
+        index === source.index ? { ...track, points: segments.flat(), segments } : track
+      )
+    };
+  }
+
+  return {
+    ...data,
+    routes: data.routes.map((route, index) =>
+      index === source.index ? { ...route, points: segments.flat() } : route
+    )
+  };
+}
+
+/**
+ * Keep a range within the route, or null when it covers the whole route
+ */
+export function clampRange(range: RouteRange, routeLength: number): RouteRange | null {
+  const start = Math.max(0, range.start);
+  const end = Math.min(routeLength, range.end);
+  return start <= 0 && end >= routeLength ? null : { start, end };
+}
+
+/**
+ * Reverse the direction of travel. Timestamps are dropped because they would run backwards.
+ */
+export function reverseSegments(segments: GPXPoint[][]): GPXPoint[][] {
+  return segments
+    .map(segment => segment.map(point => ({ ...point, time: undefined })).reverse())
+    .reverse();
+}
+
+/**
+ * Keep the part of the route between two distances from its start, interpolating the points
+ * where it is cut. Gaps between segments count towards the distance, as they do for placeholders.
+ */
+export function trimSegments(segments: GPXPoint[][], range: RouteRange): GPXPoint[][] {
+  const trimmed: GPXPoint[][] = [];
+  let distance = 0;
+
+  segments.filter(segment => segment.length > 0).forEach((points, segmentIndex, nonEmpty) => {
+    if (segmentIndex > 0) {
+      const previous = nonEmpty[segmentIndex - 1];
+      const previousEnd = previous[previous.length - 1];
+      distance += calculateDistance(previousEnd.lat, previousEnd.lon, points[0].lat, points[0].lon);
+    }
+
+    const kept: GPXPoint[] = [];
+    points.forEach((point, i) => {
+      if (i > 0) {
+        const from = points[i - 1];
+        const legStart = distance;
+        const legLength = calculateDistance(from.lat, from.lon, point.lat, point.lon);
+        distance += legLength;
+
+        // Cut the leg where the range starts or ends inside it
+        [range.start, range.end].forEach(cut => {
+          if (legStart < cut && distance > cut) {
+            kept.push(interpolatePoint(from, point, (cut - legStart) / legLength));
+          }
+        });
+      }
+      if (distance >= range.start && distance <= range.end) {
+        kept.push(point);
+      }
+    });
+
+    if (kept.length > 0) {
+      trimmed.push(kept);
+    }
+  });
+
+  return trimmed;
+}
+
+/**
+ * Length of the route in meters, including gaps between segments
+ */
+export function getRouteLength(segments: GPXPoint[][]): number {
+  const points = segments.flat();
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += calculateDistance(points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon);
+  }
+  return length;
+}
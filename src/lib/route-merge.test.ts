@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { GPXData, GPXPoint } from '../types';
+import { mergeRouteFiles } from './route-merge';
+import type { RouteFile } from './route-merge';
+
+function file(fileName: string, segments: GPXPoint[][], name?: string): RouteFile {
+  const data: GPXData = {
+    tracks: [{ name, points: segments.flat(), segments }],
+    routes: [],
+    waypoints: [{ lat: segments[0][0].lat, lon: segments[0][0].lon, name: `${fileName} start` }],
+    metadata: {}
+  };
+  return { data, fileName };
+}
+
+const A = { lat: 51, lon: 0.1 };
+const B = { lat: 51.01, lon: 0.1 };
+const C = { lat: 51.02, lon: 0.1 };
+const D = { lat: 51.03, lon: 0.1 };
+
+describe('mergeRouteFiles', () => {
+  it('refuses to merge nothing', () => {
+    expect(() => mergeRouteFiles([], 'join')).toThrow('No route files to merge');
+  });
+
+  it('keeps each file as its own track, named after the file when unnamed', () => {
+    const merged = mergeRouteFiles([file('day-1.gpx', [[A, B]], 'Out'), file('day-2.gpx', [[C, D]])], 'separate');
+
+    expect(merged.tracks.map(track => track.name)).toEqual(['Out', 'day-2']);
+    expect(merged.metadata?.name).toBe('day-1 + day-2');
+    expect(merged.waypoints).toHaveLength(2);
+  });
+
+  it('joins legs into one continuous track', () => {
+    const merged = mergeRouteFiles([file('day-1.gpx', [[A, B]]), file('day-2.gpx', [[B, C], [C, D]])], 'join');
+
+    expect(merged.tracks).toHaveLength(1);
+    expect(merged.tracks[0].segments).toEqual([[A, B, B, C], [C, D]]);
+    expect(merged.tracks[0].points).toEqual([A, B, B, C, C, D]);
+  });
+
+  it('reverses a leg that was recorded in the opposite direction', () => {
+    const merged = mergeRouteFiles([file('out.gpx', [[A, B]]), file('back.gpx', [[D, C]])], 'join');
+
+    expect(merged.tracks[0].points.map(point => point.lat)).toEqual([51, 51.01, 51.02, 51.03]);
+  });
+
+  it('names the file that has no points', () => {
+    const empty: RouteFile = { data: { tracks: [], routes: [] }, fileName: 'empty.gpx' };
+
+    expect(() => mergeRouteFiles([file('out.gpx', [[A, B]]), empty], 'join'))
+      .toThrow('empty.gpx does not contain any track or route points');
+  });
+});
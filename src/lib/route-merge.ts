@@ -0,0 +1,110 @@
+import type { GPXData, GPXPoint, GPXTrack, RouteMergeMode } from '../types';
+import { getSourceSegments } from './gpx-parser';
+import { reverseSegments } from './route-edit';
+import { calculateDistance } from './utils';
+
+export interface RouteFile {
+  data: GPXData;
+  fileName: string;
+}
+
+/**
+ * Combine several imported files into one GPXData, in the given order
+ */
+export function mergeRouteFiles(files: RouteFile[], mode: RouteMergeMode): GPXData {
+  if (files.length === 0) {
+    throw new Error('No route files to merge');
+  }
+
+  return mode === 'join' ? joinEndToEnd(files) : combineAsSeparateRoutes(files);
+}
+
+/**
+ * Keep every track and route of every file, so each can be selected as a source.
+ * Unnamed tracks and routes are named after their file.
+ */
+export function combineAsSeparateRoutes(files: RouteFile[]): GPXData {
+  return {
+    tracks: files.flatMap(({ data, fileName }) =>
+      data.tracks.map(track => ({ ...track, name: track.name || getBaseName(fileName) }))
+    ),
+    routes: files.flatMap(({ data, fileName }) =>
+      data.routes.map(route => ({ ...route, name: route.name || getBaseName(fileName) }))
+    ),
+    issues: files.flatMap(({ data }) => data.issues || []),
+    waypoints: files.flatMap(({ data }) => data.waypoints || []),
+    metadata: {
+      name: getMergedName(files)
+    }
+  };
+}
+
+/**
+ * Join the first track or route of each file into a single continuous track.
+ * A leg is reversed when its end is closer to the previous leg's end than its start,
+ * which happens when a leg was recorded or drawn in the opposite direction.
+ */
+export function joinEndToEnd(files: RouteFile[]): GPXData {
+  const segments: GPXPoint[][] = [];
+
+  files.forEach(({ data, fileName }) => {
+    let leg = getSourceSegments(data).filter(segment => segment.length > 0);
+    if (leg.length === 0) {
+      throw new Error(`${fileName} does not contain any track or route points`);
+    }
+
+    const previousSegment = segments[segments.length - 1];
+    if (!previousSegment) {
+      segments.push(...leg);
+      return;
+    }
+
+    const previousEnd = previousSegment[previousSegment.length - 1];
+    if (shouldReverseLeg(leg, previousEnd)) {
+      leg = reverseSegments(leg);
+    }
+
+    // Continue the previous segment so the legs form one continuous line
+    const [firstSegment, ...otherSegments] = leg;
+    segments[segments.length - 1] = [...previousSegment, ...firstSegment];
+    segments.push(...otherSegments);
+  });
+
+  const track: GPXTrack = {
+    name: getMergedName(files),
+    points: segments.flat(),
+    segments
+  };
+
+  return {
+    tracks: [track],
+    routes: [],
+    issues: files.flatMap(({ data }) => data.issues || []),
+    waypoints: files.flatMap(({ data }) => data.waypoints || []),
+    metadata: {
+      name: track.name,
+      time: files[0].data.metadata?.time
+    }
+  };
+}
+
+/**
+ * Check whether a leg would connect better to `previousEnd` when travelled backwards
+ */
+function shouldReverseLeg(leg: GPXPoint[][], previousEnd: GPXPoint): boolean {
+  const start = leg[0][0];
+  const lastSegment = leg[leg.length - 1];
+  const end = lastSegment[lastSegment.length - 1];
+
+  const toStart = calculateDistance(previousEnd.lat, previousEnd.lon, start.lat, start.lon);
+  const toEnd = calculateDistance(previousEnd.lat, previousEnd.lon, end.lat, end.lon);
+  return toEnd < toStart;
+}
+
+function getMergedName(files: RouteFile[]): string {
+  return files.map(({ data, fileName }) => data.metadata?.name || getBaseName(fileName)).join(' + ');
+}
+
+function getBaseName(fileName: string): string {
+  return fileName.replace(/\.[^/.]+$/, '');
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { GPXPoint } from '../types';
+import { calculateRouteStats, formatPace, formatSpeed } from './route-stats';
+
+const START = Date.parse('2024-01-01T00:00:00Z');
+
+// ~111 m between points heading north every 20 seconds (20 km/h), climbing 5 m each
+function ride(count: number): GPXPoint[] {
+  return Array.from({ length: count }, (_, index) => ({
+    lat: 51 + index * 0.001,
+    lon: 0.1,
+    ele: 100 + index * 5,
+    time: new Date(START + index * 20000)
+  }));
+}
+
+describe('calculateRouteStats', () => {
+  it('measures distance, time, speed and extent', () => {
+    const stats = calculateRouteStats([ride(11)]);
+
+    expect(stats.distance).toBeCloseTo(1112, -1);
+    expect(stats.pointCount).toBe(11);
+    expect(stats.elapsedTime).toBe(200);
+    expect(stats.movingTime).toBe(200);
+    expect(stats.averageSpeed! * 3.6).toBeCloseTo(20, 0);
+    expect(stats.averagePace).toBeCloseTo(180, -1);
+    expect(stats.bounds).toEqual({ north: 51.01, south: 51, east: 0.1, west: 0.1 });
+  });
+
+  it('leaves stops out of the moving time', () => {
+    const points = ride(11);
+    const later = (point: GPXPoint) => ({ ...point, time: new Date(point.time!.getTime() + 600000) });
+    // Ten minutes at the cafe halfway
+    const stats = calculateRouteStats([[...points.slice(0, 6), later(points[5]), ...points.slice(6).map(later)]]);
+
+    expect(stats.elapsedTime).toBe(800);
+    expect(stats.movingTime).toBe(200);
+  });
+
+  it('reports elevation figures, or null without elevation data', () => {
+    const stats = calculateRouteStats([ride(11)]);
+    expect(stats.ascent).toBeGreaterThan(0);
+    expect(stats.minElevation).toBeLessThan(stats.maxElevation!);
+
+    const flat = calculateRouteStats([ride(11).map(({ lat, lon }) => ({ lat, lon }))]);
+    expect(flat.ascent).toBeNull();
+    expect(flat.movingTime).toBeNull();
+    expect(flat.averageSpeed).toBeNull();
+  });
+
+  it('measures the same distance with either formula', () => {
+    const haversine = calculateRouteStats([ride(11)], 'haversine').distance;
+    const vincenty = calculateRouteStats([ride(11)], 'vincenty').distance;
+
+    expect(Math.abs(haversine - vincenty) / haversine).toBeLessThan(0.005);
+  });
+
+  it('rejects routes without points', () => {
+    expect(() => calculateRouteStats([[]])).toThrow('without points');
+  });
+});
+
+describe('formatting', () => {
+  it('formats pace and speed', () => {
+    expect(formatPace(309.4)).toBe('5:09 /km');
+    expect(formatSpeed(10)).toBe('36.0 km/h');
+  });
+});
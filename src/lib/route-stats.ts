@@ -0,0 +1,83 @@
+import type { DistanceFormula, GPXPoint, RouteStats } from '../types';
+import { calculateDistance, calculateDistanceVincenty } from './utils';
+import { calculateElevationStats } from './elevation';
+import { getMovingTime } from './street-view-api';
+
+/**
+ * Distance, elevation, timing and extent of a route, given as the segments of one track or route.
+ * Elevation figures are smoothed the same way as the elevation profile, and moving time leaves
+ * out stops the same way time-based sampling does.
+ */
+export function calculateRouteStats(
+  segments: GPXPoint[][],
+  formula: DistanceFormula = 'haversine'
+): RouteStats {
+  const nonEmptySegments = segments.filter(segment => segment.length > 0);
+  const points = nonEmptySegments.flat();
+  if (points.length === 0) {
+    throw new Error('Cannot calculate statistics for a route without points');
+  }
+
+  const distanceBetween = formula === 'vincenty' ? calculateDistanceVincenty : calculateDistance;
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    distance += distanceBetween(points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon);
+  }
+
+  const elevation = calculateElevationStats(nonEmptySegments);
+  const movingTimes = nonEmptySegments.map(getMovingTime).filter((time): time is number => time !== null);
+  const movingTime = movingTimes.length > 0 ? movingTimes.reduce((sum, time) => sum + time, 0) : null;
+
+  return {
+    distance,
+    pointCount: points.length,
+    ascent: elevation?.ascent ?? null,
+    descent: elevation?.descent ?? null,
+    minElevation: elevation?.minElevation ?? null,
+    maxElevation: elevation?.maxElevation ?? null,
+    movingTime,
+    elapsedTime: getElapsedTime(points),
+    averageSpeed: movingTime ? distance / movingTime : null,
+    averagePace: movingTime && distance > 0 ? movingTime / (distance / 1000) : null,
+    bounds: getBounds(points)
+  };
+}
+
+/**
+ * Format a pace in seconds per kilometer, e.g. "5:09 /km"
+ */
+export function formatPace(secondsPerKm: number): string {
+  const total = Math.round(secondsPerKm);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')} /km`;
+}
+
+/**
+ * Format a speed in m/s as km/h
+ */
+export function formatSpeed(metersPerSecond: number): string {
+  return `${(metersPerSecond * 3.6).toFixed(1)} km/h`;
+}
+
+/**
+ * Seconds from the first to the last valid timestamp
+ */
+function getElapsedTime(points: GPXPoint[]): number | null {
+  const times = points
+    .map(point => point.time?.getTime())
+    .filter((time): time is number => time !== undefined && !isNaN(time));
+
+  return times.length > 1 ? (times[times.length - 1] - times[0]) / 1000 : null;
+}
+
+function getBounds(points: GPXPoint[]): RouteStats['bounds'] {
+  const bounds = { north: -90, south: 90, east: -180, west: 180 };
+
+  points.forEach(point => {
+    bounds.north = Math.max(bounds.north, point.lat);
+    bounds.south = Math.min(bounds.south, point.lat);
+    bounds.east = Math.max(bounds.east, point.lon);
+    bounds.west = Math.min(bounds.west, point.lon);
+  });
+
+  return bounds;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { GPXPoint, StreetViewImage } from '../types';
+import { attachSensorData, getSensorKey } from './sensor-data';
+
+function frame(lat: number, segmentIndex = 0): StreetViewImage {
+  return { id: `${lat}`, coordinates: { lat, lng: 0.1 }, distance: 0, segmentIndex, loaded: false };
+}
+
+describe('getSensorKey', () => {
+  it('maps vendor element names onto sensor values', () => {
+    expect(getSensorKey('heartrate')).toBe('hr');
+    expect(getSensorKey('PowerInWatts')).toBe('power');
+    expect(getSensorKey('temp')).toBe('atemp');
+    expect(getSensorKey('constructor')).toBeUndefined();
+  });
+});
+
+describe('attachSensorData', () => {
+  const points: GPXPoint[] = [
+    { lat: 51, lon: 0.1, sensors: { hr: 100 } },
+    { lat: 51.001, lon: 0.1, sensors: { hr: 120 } },
+    { lat: 51.002, lon: 0.1, sensors: { hr: 140 } }
+  ];
+
+  it('gives each frame the values of the nearest recorded point', () => {
+    const images = attachSensorData([frame(51.0001), frame(51.0019)], [points]);
+
+    expect(images.map(image => image.sensors?.hr)).toEqual([100, 140]);
+  });
+
+  it('keeps the return leg of an out-and-back from matching the way out', () => {
+    const back = [...points].reverse().map(point => ({ ...point, sensors: { hr: point.sensors!.hr! + 5 } }));
+    const outAndBack = [...points, ...back];
+    const images = attachSensorData([frame(51), frame(51.002), frame(51.001), frame(51)], [outAndBack]);
+
+    expect(images.map(image => image.sensors?.hr)).toEqual([100, 140, 125, 105]);
+  });
+
+  it('leaves frames alone when the route has no sensor data', () => {
+    const images = [frame(51)];
+
+    expect(attachSensorData(images, [[{ lat: 51, lon: 0.1 }]])).toBe(images);
+  });
+});
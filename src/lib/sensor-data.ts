@@ -0,0 +1,78 @@
+import type { GPXPoint, GPXSensorData, StreetViewImage } from '../types';
+import { calculateDistance } from './utils';
+
+// Element local names used by Garmin TrackPointExtension v1/v2, the Garmin power
+// extension, Cluetrust and similar vendor schemas
+const SENSOR_ELEMENTS: Record<string, keyof GPXSensorData> = {
+  hr: 'hr',
+  heartrate: 'hr',
+  cad: 'cad',
+  cadence: 'cad',
+  atemp: 'atemp',
+  temp: 'atemp',
+  power: 'power',
+  PowerInWatts: 'power',
+  watts: 'power',
+  speed: 'speed'
+};
+
+// Stop scanning forward once points are this much farther than the best match
+const NEAREST_POINT_SEARCH_SLACK = 500; // meters
+
+/**
+ * Map a GPX <extensions> element name to the sensor value it carries
+ */
+export function getSensorKey(localName: string): keyof GPXSensorData | undefined {
+  return Object.prototype.hasOwnProperty.call(SENSOR_ELEMENTS, localName) ? SENSOR_ELEMENTS[localName] : undefined;
+}
+
+/**
+ * Attach the sensor values of the nearest recorded point to each image.
+ * Images and points are both ordered along the route, so the search only moves forward
+ * within the image's segment; this also keeps out-and-back legs from matching each other.
+ */
+export function attachSensorData(
+  images: StreetViewImage[],
+  segments: GPXPoint[][]
+): StreetViewImage[] {
+  if (!segments.some(segment => segment.some(point => point.sensors))) {
+    return images;
+  }
+
+  let cursorSegment = -1;
+  let cursor = 0;
+
+  return images.map(image => {
+    const points = segments[image.segmentIndex];
+    if (!points || points.length === 0) return image;
+
+    if (cursorSegment !== image.segmentIndex) {
+      cursorSegment = image.segmentIndex;
+      cursor = 0;
+    }
+
+    let bestIndex = cursor;
+    let bestDistance = Infinity;
+
+    for (let i = cursor; i < points.length; i++) {
+      const distance = calculateDistance(
+        image.coordinates.lat,
+        image.coordinates.lng,
+        points[i].lat,
+        points[i].lon
+      );
+
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = i;
+      } else if (distance > bestDistance + NEAREST_POINT_SEARCH_SLACK) {
+        break;
+      }
+    }
+
+    cursor = bestIndex;
+    const sensors = points[bestIndex].sensors;
+
+    return sensors ? { ...image, sensors } : image;
+  });
+}
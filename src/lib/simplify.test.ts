@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { GPXPoint, SimplificationMethod } from '../types';
+import { createDistanceMapping, simplifyRoute } from './simplify';
+
+// ~1.1 m between points along a wavy line heading north, deviating up to ~2 m sideways
+function wavyLine(count: number, lat = 51): GPXPoint[] {
+  return Array.from({ length: count }, (_, index) => ({
+    lat: lat + index * 0.00001,
+    lon: 0.1 + Math.sin(index / 10) * 0.00003
+  }));
+}
+
+// A right angle: ~111 m north, then ~70 m east
+const corner: GPXPoint[] = [
+  ...Array.from({ length: 11 }, (_, index) => ({ lat: 51 + index * 0.0001, lon: 0.1 })),
+  ...Array.from({ length: 10 }, (_, index) => ({ lat: 51.001, lon: 0.1 + (index + 1) * 0.0001 }))
+];
+
+describe.each<SimplificationMethod>(['rdp', 'visvalingam'])('simplifyRoute (%s)', method => {
+  it('keeps every point with a tolerance of 0', () => {
+    const points = wavyLine(100);
+    const result = simplifyRoute([points], 0, method);
+
+    expect(result.segments[0]).toBe(points);
+    expect(result.pointCount).toBe(100);
+    expect(result.maxDeviation).toBe(0);
+  });
+
+  it('reduces a dense track to its shape', () => {
+    const result = simplifyRoute([corner], 1, method);
+
+    expect(result.originalPointCount).toBe(21);
+    expect(result.segments[0]).toEqual([corner[0], corner[10], corner[20]]);
+  });
+
+  it('stays within a tolerance wide enough to matter', () => {
+    const result = simplifyRoute([wavyLine(500)], 1, method);
+
+    expect(result.pointCount).toBeLessThan(500);
+    expect(result.pointCount).toBeGreaterThan(2);
+    expect(result.maxDeviation).toBeLessThanOrEqual(method === 'rdp' ? 1 : 3);
+  });
+
+  it('keeps the ends of every segment and measures distances along the original track', () => {
+    const first = wavyLine(200);
+    const second = wavyLine(200, 51.01);
+    const result = simplifyRoute([first, second], 5, method);
+
+    expect(result.segments).toHaveLength(2);
+    expect(result.segments[1][0]).toBe(second[0]);
+    expect(result.segments[1][result.segments[1].length - 1]).toBe(second[199]);
+    // The second segment starts after the first and the ~890 m gap between them
+    expect(result.distances[1][0] - result.distances[0][result.distances[0].length - 1]).toBeCloseTo(890, -1);
+  });
+
+  it('copes with tracks too long to simplify recursively', () => {
+    const result = simplifyRoute([wavyLine(20000)], 2, method);
+
+    expect(result.pointCount).toBeLessThan(20000);
+  });
+});
+
+describe('createDistanceMapping', () => {
+  it('maps distances between the simplified line and the original track', () => {
+    const simplification = simplifyRoute([wavyLine(500)], 3, 'rdp');
+    const mapping = createDistanceMapping(simplification);
+    const end = simplification.distances[0][simplification.distances[0].length - 1];
+
+    expect(mapping.toOriginal(0)).toBe(0);
+    expect(mapping.toSimplified(end)).toBeLessThanOrEqual(end);
+    expect(mapping.toOriginal(mapping.toSimplified(end / 2))).toBeCloseTo(end / 2, 6);
+  });
+
+  it('is the identity when nothing was simplified', () => {
+    const mapping = createDistanceMapping(simplifyRoute([corner], 0, 'rdp'));
+
+    expect(mapping.toOriginal(123)).toBeCloseTo(123, 6);
+    expect(mapping.toSimplified(45)).toBeCloseTo(45, 6);
+  });
+});
@@ -0,0 +1,295 @@
+import type { GPXPoint, RouteSimplification, SimplificationMethod } from '../types';
+import { calculateDistance } from './utils';
+
+const EARTH_RADIUS = 6371000; // meters
+
+// Point projected onto a flat plane around the segment, in meters
+interface PlanarPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Reduce the number of points in each segment while keeping the line within `tolerance` meters
+ * of the original. Ramer–Douglas–Peucker keeps every point further than the tolerance from the
+ * simplified line; Visvalingam–Whyatt drops the points that add the least area first, until
+ * every remaining point adds more than tolerance² square meters.
+ */
+export function simplifyRoute(
+  segments: GPXPoint[][],
+  tolerance: number,
+  method: SimplificationMethod
+): RouteSimplification {
+  const simplifiedSegments: GPXPoint[][] = [];
+  const distances: number[][] = [];
+  let originalPointCount = 0;
+  let maxDeviation = 0;
+  let startDistance = 0;
+
+  segments.filter(segment => segment.length > 0).forEach((points, index) => {
+    // Gaps between segments count towards the distance, as they do for placeholders
+    if (index > 0) {
+      const previous = simplifiedSegments[index - 1];
+      const previousEnd = previous[previous.length - 1];
+      startDistance += calculateDistance(previousEnd.lat, previousEnd.lon, points[0].lat, points[0].lon);
+    }
+
+    const cumulative = getCumulativeDistances(points);
+    originalPointCount += points.length;
+
+    // Without simplification every point is kept as it is, so there is nothing to project or measure
+    if (tolerance <= 0 || points.length <= 2) {
+      simplifiedSegments.push(points);
+      distances.push(cumulative.map(distance => startDistance + distance));
+    } else {
+      const planar = toPlanar(points);
+      const kept = method === 'visvalingam'
+        ? visvalingamWhyatt(planar, tolerance * tolerance)
+        : douglasPeucker(planar, tolerance);
+
+      simplifiedSegments.push(kept.map(i => points[i]));
+      distances.push(kept.map(i => startDistance + cumulative[i]));
+      maxDeviation = Math.max(maxDeviation, getMaxDeviation(planar, kept));
+    }
+    startDistance += cumulative[cumulative.length - 1];
+  });
+
+  return {
+    segments: simplifiedSegments,
+    distances,
+    originalPointCount,
+    pointCount: simplifiedSegments.reduce((sum, segment) => sum + segment.length, 0),
+    maxDeviation
+  };
+}
+
+/**
+ * Convert distances between the simplified line and the original track. Both are measured from
+ * the start of the route, and are interpolated between the points the simplification kept.
+ */
+export function createDistanceMapping(simplification: RouteSimplification) {
+  const simplified: number[] = [];
+  const original: number[] = simplification.distances.flat();
+  let distance = 0;
+
+  simplification.segments.forEach((points, segmentIndex) => {
+    if (segmentIndex > 0) {
+      // Segment ends are always kept, so the gap is the same on both lines
+      const previousDistances = simplification.distances[segmentIndex - 1];
+      distance += simplification.distances[segmentIndex][0] - previousDistances[previousDistances.length - 1];
+    }
+    getCumulativeDistances(points).forEach(along => simplified.push(distance + along));
+    distance = simplified[simplified.length - 1];
+  });
+
+  return {
+    toOriginal: (value: number) => interpolateDistance(simplified, original, value),
+    toSimplified: (value: number) => interpolateDistance(original, simplified, value)
+  };
+}
+
+/**
+ * Map `value` from the ascending `from` scale onto the matching `to` scale
+ */
+function interpolateDistance(from: number[], to: number[], value: number): number {
+  if (from.length === 0) return value;
+  if (value <= from[0]) return to[0] + (value - from[0]);
+  if (value >= from[from.length - 1]) return to[to.length - 1] + (value - from[from.length - 1]);
+
+  // Binary search for the last entry at or before `value`
+  let low = 0;
+  let high = from.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (from[mid] <= value) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const span = from[low + 1] - from[low];
+  const fraction = span > 0 ? (value - from[low]) / span : 0;
+  return to[low] + (to[low + 1] - to[low]) * fraction;
+}
+
+function getCumulativeDistances(points: GPXPoint[]): number[] {
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    cumulative.push(cumulative[i - 1] + calculateDistance(from.lat, from.lon, to.lat, to.lon));
+  }
+  return cumulative;
+}
+
+/**
+ * Equirectangular projection around the first point, accurate enough for measuring
+ * deviations of a few meters
+ */
+function toPlanar(points: GPXPoint[]): PlanarPoint[] {
+  const origin = points[0];
+  const scale = Math.cos((origin.lat * Math.PI) / 180);
+
+  return points.map(point => ({
+    x: (((point.lon - origin.lon) * Math.PI) / 180) * EARTH_RADIUS * scale,
+    y: (((point.lat - origin.lat) * Math.PI) / 180) * EARTH_RADIUS
+  }));
+}
+
+/**
+ * Indices of the points kept by Ramer–Douglas–Peucker. Uses an explicit stack so
+ * tracks with tens of thousands of points cannot overflow the call stack.
+ */
+function douglasPeucker(points: PlanarPoint[], tolerance: number): number[] {
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let furthest = -1;
+    let furthestDistance = tolerance;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToLine(points[i], points[first], points[last]);
+      if (distance > furthestDistance) {
+        furthest = i;
+        furthestDistance = distance;
+      }
+    }
+
+    if (furthest !== -1) {
+      keep[furthest] = 1;
+      stack.push([first, furthest], [furthest, last]);
+    }
+  }
+
+  return points.map((_, i) => i).filter(i => keep[i]);
+}
+
+/**
+ * Indices of the points kept by Visvalingam–Whyatt: repeatedly remove the point whose triangle
+ * with its neighbours has the smallest area, until every remaining area is at least `minArea`
+ */
+function visvalingamWhyatt(points: PlanarPoint[], minArea: number): number[] {
+  const previous = points.map((_, i) => i - 1);
+  const next = points.map((_, i) => i + 1);
+  const areas = points.map((_, i) =>
+    i === 0 || i === points.length - 1 ? Infinity : triangleArea(points[i - 1], points[i], points[i + 1])
+  );
+  const removed = new Uint8Array(points.length);
+  const heap = new MinHeap();
+
+  for (let i = 1; i < points.length - 1; i++) {
+    heap.push(areas[i], i);
+  }
+
+  while (heap.size > 0) {
+    const [area, index] = heap.pop()!;
+    // Skip entries made stale by a neighbour's removal
+    if (removed[index] || area !== areas[index]) continue;
+    if (area >= minArea) break;
+
+    removed[index] = 1;
+    const before = previous[index];
+    const after = next[index];
+    next[before] = after;
+    previous[after] = before;
+
+    // A neighbour's area never drops below that of the point just removed, so points are
+    // removed in order of their effective area
+    [before, after].forEach(neighbour => {
+      if (neighbour <= 0 || neighbour >= points.length - 1) return;
+      areas[neighbour] = Math.max(
+        area,
+        triangleArea(points[previous[neighbour]], points[neighbour], points[next[neighbour]])
+      );
+      heap.push(areas[neighbour], neighbour);
+    });
+  }
+
+  return points.map((_, i) => i).filter(i => !removed[i]);
+}
+
+/**
+ * Furthest any original point lies from the simplified line between the kept points around it
+ */
+function getMaxDeviation(points: PlanarPoint[], kept: number[]): number {
+  let maxDeviation = 0;
+
+  for (let k = 1; k < kept.length; k++) {
+    const from = points[kept[k - 1]];
+    const to = points[kept[k]];
+    for (let i = kept[k - 1] + 1; i < kept[k]; i++) {
+      maxDeviation = Math.max(maxDeviation, distanceToLine(points[i], from, to));
+    }
+  }
+
+  return maxDeviation;
+}
+
+/**
+ * Distance from `point` to the line segment between `from` and `to`
+ */
+function distanceToLine(point: PlanarPoint, from: PlanarPoint, to: PlanarPoint): number {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const fraction = lengthSquared > 0
+    ? Math.min(1, Math.max(0, ((point.x - from.x) * dx + (point.y - from.y) * dy) / lengthSquared))
+    : 0;
+
+  return Math.hypot(point.x - (from.x + dx * fraction), point.y - (from.y + dy * fraction));
+}
+
+function triangleArea(a: PlanarPoint, b: PlanarPoint, c: PlanarPoint): number {
+  return Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+}
+
+/**
+ * Binary min-heap of [area, index] entries
+ */
+class MinHeap {
+  private entries: Array<[number, number]> = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(area: number, index: number): void {
+    const entries = this.entries;
+    entries.push([area, index]);
+
+    let i = entries.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (entries[parent][0] <= entries[i][0]) break;
+      [entries[parent], entries[i]] = [entries[i], entries[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const entries = this.entries;
+    const top = entries[0];
+    const last = entries.pop();
+    if (entries.length === 0 || !last) return top;
+
+    entries[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < entries.length && entries[left][0] < entries[smallest][0]) smallest = left;
+      if (right < entries.length && entries[right][0] < entries[smallest][0]) smallest = right;
+      if (smallest === i) break;
+      [entries[smallest], entries[i]] = [entries[i], entries[smallest]];
+      i = smallest;
+    }
+
+    return top;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { GPXPoint, SamplingOptions } from '../types';
+import { generateStreetViewPlaceholders } from './street-view-api';
+
+const sampling: SamplingOptions = {
+  mode: 'adaptive',
+  intervalDistance: 50,
+  creditBudget: 20,
+  timeInterval: 30,
+  minStopDuration: 60,
+  headingLookAhead: 30,
+  simplifyTolerance: 0,
+  simplifyMethod: 'rdp'
+};
+
+// A straight line north from `lat`, one point every ~111 m
+function line(lat: number, count: number): GPXPoint[] {
+  return Array.from({ length: count }, (_, index) => ({ lat: lat + index * 0.001, lon: 0.1 }));
+}
+
+describe('generateStreetViewPlaceholders', () => {
+  it('places a frame every interval in interval mode', async () => {
+    const images = await generateStreetViewPlaceholders([line(51, 11)], { ...sampling, mode: 'interval' });
+
+    expect(images.length).toBeGreaterThanOrEqual(22);
+    expect(images[0].distance).toBe(0);
+    expect(images[1].distance).toBeCloseTo(50, 6);
+  });
+
+  it('keeps adaptive sampling within the budget', async () => {
+    const images = await generateStreetViewPlaceholders([line(51, 101)], sampling);
+
+    expect(images.length).toBeLessThanOrEqual(sampling.creditBudget);
+  });
+
+  it('counts waypoint and dense stretch frames towards the budget', async () => {
+    const images = await generateStreetViewPlaceholders([line(51, 101)], {
+      ...sampling,
+      denseStretches: [{ startDistance: 1000, endDistance: 3000, intervalDistance: 20 }],
+      waypoints: [{ lat: 51.05, lon: 0.1, name: 'Cafe' }]
+    });
+
+    expect(images.length).toBeLessThanOrEqual(sampling.creditBudget);
+    expect(images.some(image => image.waypoint?.name === 'Cafe')).toBe(true);
+  });
+
+  it('stays within the budget when the segment ends alone exceed it', async () => {
+    const segments = Array.from({ length: 15 }, (_, index) => line(51 + index, 5));
+    const images = await generateStreetViewPlaceholders(segments, {
+      ...sampling,
+      waypoints: segments.map((segment, index) => ({ ...segment[2], name: `Stop ${index + 1}` }))
+    });
+
+    expect(images.length).toBe(sampling.creditBudget);
+  });
+
+  it('adds a frame at the nearest position on the route to each nearby waypoint', async () => {
+    const images = await generateStreetViewPlaceholders([line(51, 11)], {
+      ...sampling,
+      mode: 'interval',
+      intervalDistance: 500,
+      waypoints: [
+        { lat: 51.0042, lon: 0.1005, name: 'Cafe' },
+        { lat: 51.005, lon: 0.2, name: 'Far away' }
+      ]
+    });
+    const cafe = images.filter(image => image.waypoint);
+
+    expect(cafe.map(image => image.waypoint!.name)).toEqual(['Cafe']);
+    expect(cafe[0].coordinates.lat).toBeCloseTo(51.0042, 4);
+    expect(cafe[0].coordinates.lng).toBeCloseTo(0.1, 6);
+  });
+});
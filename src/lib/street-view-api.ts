@@ -1,98 +1,233 @@
-import { GPXPoint, StreetViewImage } from '../types';
-import { calculateDistance, calculateBearing, generateId } from './utils';
+import { DenseStretch, GPXPoint, GPXWaypoint, SamplingMode, SamplingOptions, StreetViewImage, StreetViewMetadata } from '../types';
+import { googleProvider } from './imagery';
+import type { ImageryOptions, ImageryProvider, ImagerySearchOptions } from './imagery';
+import {
+  calculateDistance,
+  calculateBearing,
+  angleDifference,
+  circularMean,
+  interpolateGreatCircle,
+  generateId
+} from './utils';
 
 /**
- * Generate Street View image placeholders along a GPX route (no API calls yet)
+ * Generate Street View image placeholders along a GPX route (no API calls yet).
+ * Each segment is sampled separately so no frames are placed across gaps.
  */
 export async function generateStreetViewPlaceholders(
-  points: GPXPoint[],
-  intervalDistance: number,
+  segments: GPXPoint[][],
+  sampling: SamplingOptions,
   onProgress?: (current: number, total: number) => void
 ): Promise<StreetViewImage[]> {
-  if (points.length < 2) {
+  const pointCount = segments.reduce((sum, segment) => sum + segment.length, 0);
+  if (pointCount < 2) {
     throw new Error('At least 2 points are required to generate Street View placeholders');
   }
   
-  // Sample points at specified intervals
-  const sampledPoints = samplePointsAtInterval(points, intervalDistance);
+  // Sample points at specified intervals, restarting at each segment boundary.
+  // The adaptive budget covers every frame, so the frames added at dense stretches and waypoints
+  // are set aside from it before the regular frames are placed.
+  const nonEmptySegments = segments.filter(segment => segment.length > 0);
+  const budgeted = sampling.mode === 'adaptive';
+  const reserved = budgeted ? countExtraSamples(nonEmptySegments, sampling) : 0;
+  let sampledSegments = sampleSegments(nonEmptySegments, budgeted
+    ? {
+        ...sampling,
+        creditBudget: Math.min(sampling.creditBudget, Math.max(2 * nonEmptySegments.length, sampling.creditBudget - reserved))
+      }
+    : sampling);
+  const segmentStartDistances = getSegmentStartDistances(sampledSegments);
+  
+  sampledSegments = addExtraSamples(sampledSegments, sampling);
+  // Extra frames that still do not fit (e.g. more waypoints than the budget) thin out the rest
+  if (budgeted) {
+    sampledSegments = applyBudget(sampledSegments, sampling.creditBudget);
+  }
   
-  if (sampledPoints.length === 0) {
+  const sampledCount = sampledSegments.reduce((sum, segment) => sum + segment.samples.length, 0);
+  
+  if (sampledCount === 0) {
     throw new Error('No valid points found for Street View placeholder generation');
   }
   
   const images: StreetViewImage[] = [];
-  let totalDistance = 0;
-  
-  for (let i = 0; i < sampledPoints.length; i++) {
-    const point = sampledPoints[i];
-    const nextPoint = sampledPoints[i + 1];
-    
-    // Calculate heading to next point (if available)
-    let heading = 0;
-    if (nextPoint) {
-      heading = calculateBearing(point.lat, point.lon, nextPoint.lat, nextPoint.lon);
-    }
-    
-    // Calculate distance from start
-    if (i > 0) {
-      totalDistance += calculateDistance(
-        sampledPoints[i - 1].lat,
-        sampledPoints[i - 1].lon,
-        point.lat,
-        point.lon
-      );
-    }
-    
-    const image: StreetViewImage = {
-      id: generateId(),
-      coordinates: { lat: point.lat, lng: point.lon },
-      heading,
-      pitch: 0,
-      distance: totalDistance,
-      loaded: false,
-      isLoading: false
-    };
-    
-    images.push(image);
-    
-    if (onProgress) {
-      onProgress(i + 1, sampledPoints.length);
+  const startTime = getFirstTime(nonEmptySegments);
+  
+  sampledSegments.forEach((segment, segmentIndex) => {
+    let previousHeading: number | null = null;
+    for (let i = 0; i < segment.samples.length; i++) {
+      const { point, distance, waypoint } = segment.samples[i];
+      
+      // Look ahead along the route; the last frame has nothing ahead and keeps the previous bearing
+      const heading: number = getLookAheadHeading(segment, distance, sampling.headingLookAhead)
+        ?? previousHeading
+        ?? getLookBehindHeading(segment, sampling.headingLookAhead);
+      previousHeading = heading;
+      
+      const image: StreetViewImage = {
+        id: generateId(),
+        coordinates: { lat: point.lat, lng: point.lon },
+        heading,
+        pitch: 0,
+        distance: segmentStartDistances[segmentIndex] + distance,
+        elevation: point.ele,
+        time: point.time,
+        elapsedTime: point.time && startTime
+          ? (point.time.getTime() - startTime.getTime()) / 1000
+          : undefined,
+        segmentIndex,
+        waypoint,
+        loaded: false,
+        isLoading: false
+      };
+      
+      images.push(image);
+      
+      if (onProgress) {
+        onProgress(images.length, sampledCount);
+      }
     }
-  }
+  });
   
   return images;
 }
 
+export interface RouteSample {
+  lat: number;
+  lon: number;
+  ele?: number;
+  distance: number; // from the start of the route, in meters
+  bearing: number; // direction of travel, in degrees
+}
+
+/**
+ * Sample the route every `spacing` meters with the elevation and direction of travel at each
+ * sample, one list per segment. Distances match the `distance` of generated placeholders.
+ */
+export function sampleRoute(segments: GPXPoint[][], spacing: number): RouteSample[][] {
+  const sampledSegments = segments
+    .filter(segment => segment.length > 0)
+    .map(segment => samplePointsAtInterval(segment, spacing));
+  const segmentStartDistances = getSegmentStartDistances(sampledSegments);
+  
+  return sampledSegments.map(({ samples }, segmentIndex) => {
+    let previousBearing = 0;
+    return samples.map(({ point, distance }, i) => {
+      const next = samples[i + 1];
+      if (next) {
+        previousBearing = calculateBearing(point.lat, point.lon, next.point.lat, next.point.lon);
+      }
+      return {
+        lat: point.lat,
+        lon: point.lon,
+        ele: point.ele,
+        distance: segmentStartDistances[segmentIndex] + distance,
+        bearing: previousBearing
+      };
+    });
+  });
+}
+
+/**
+ * Distance from the start of the route to the start of each segment (gaps between segments still count)
+ */
+function getSegmentStartDistances(sampledSegments: SampledSegment[]): number[] {
+  const startDistances: number[] = [];
+  let distance = 0;
+  
+  sampledSegments.forEach(({ points, length }, index) => {
+    if (index > 0) {
+      const previous = sampledSegments[index - 1].points;
+      const previousEnd = previous[previous.length - 1];
+      distance += calculateDistance(previousEnd.lat, previousEnd.lon, points[0].lat, points[0].lon);
+    }
+    startDistances.push(distance);
+    distance += length;
+  });
+  
+  return startDistances;
+}
+
+/**
+ * Whether a sampling mode places frames by the recorded timestamps
+ */
+export function isTimeBasedSampling(mode: SamplingMode): boolean {
+  return mode === 'time' || mode === 'stops';
+}
+
+/**
+ * Sample every segment with the selected sampling mode
+ */
+function sampleSegments(segments: GPXPoint[][], sampling: SamplingOptions): SampledSegment[] {
+  if (isTimeBasedSampling(sampling.mode) && !getFirstTime(segments)) {
+    throw new Error('Time-based sampling needs a recorded activity with timestamps');
+  }
+  
+  switch (sampling.mode) {
+    case 'adaptive':
+      return sampleAdaptively(segments, sampling.intervalDistance, sampling.creditBudget);
+    case 'time':
+      return segments.map(segment => samplePointsByMovingTime(segment, sampling.timeInterval));
+    case 'stops':
+      return segments.map(segment => samplePointsAtStops(segment, sampling.minStopDuration));
+    default:
+      return segments.map(segment => samplePointsAtInterval(segment, sampling.intervalDistance));
+  }
+}
+
+function getFirstTime(segments: GPXPoint[][]): Date | undefined {
+  for (const segment of segments) {
+    const point = segment.find(point => point.time && !isNaN(point.time.getTime()));
+    if (point) return point.time;
+  }
+  return undefined;
+}
+
+/**
+ * Index of the image closest to a distance along the route
+ */
+export function findNearestImage(images: StreetViewImage[], distance: number): number {
+  let nearest = 0;
+  images.forEach((image, index) => {
+    if (Math.abs(image.distance - distance) < Math.abs(images[nearest].distance - distance)) {
+      nearest = index;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Heading the camera should face, preferring a manual override over the computed heading
+ */
+export function getImageHeading(image: StreetViewImage): number {
+  return image.headingOverride ?? image.heading ?? 0;
+}
+
 /**
  * Load a single Street View image on demand
  */
 export async function loadStreetViewImage(
   image: StreetViewImage,
-  apiKey: string,
-  size: string = '640x640',
-  fov: number = 90,
-  pitch: number = 0
+  provider: ImageryProvider,
+  options: ImageryOptions
 ): Promise<StreetViewImage> {
-  if (!apiKey) {
-    throw new Error('Google API key is required');
+  if (provider.credential && !options.apiKey) {
+    throw new Error(`A ${provider.credential.label} is required`);
   }
 
   if (image.loaded || image.isLoading) {
     return image; // Already loaded or loading
   }
 
+  // The coverage check found no panorama here, so don't pay for a grey tile
+  if (image.metadata && image.metadata.status !== 'OK') {
+    return { ...image, loaded: false, error: 'No Street View imagery at this location' };
+  }
+
   const updatedImage = { ...image, isLoading: true };
 
   try {
-    const url = generateStreetViewURL(
-      image.coordinates.lat,
-      image.coordinates.lng,
-      image.heading || 0,
-      apiKey,
-      size,
-      fov,
-      pitch
-    );
+    const url = await provider.getImageUrl(image, getImageHeading(image), options);
 
     // Test if the image loads successfully
     await loadImage(url);
@@ -113,102 +248,670 @@ export async function loadStreetViewImage(
   }
 }
 
+interface SampledSegment {
+  samples: Array<{ point: GPXPoint; distance: number; waypoint?: GPXWaypoint }>; // distance along the segment, in meters
+  points: GPXPoint[]; // the original track points
+  cumulative: number[]; // distance along the segment of each track point
+  length: number;
+}
+
+// Remaining distance below which the last track point is considered already sampled
+const END_POINT_TOLERANCE = 0.01; // meters
+
 /**
- * Sample points at regular intervals along the route
+ * Sample points at regular intervals along the route.
+ * Points are interpolated along the great circle between track points, so frames land
+ * exactly every `intervalDistance` meters however sparse the track is. `points` must not be empty.
  */
-function samplePointsAtInterval(points: GPXPoint[], intervalDistance: number): GPXPoint[] {
-  if (points.length < 2) return points;
-  
-  const sampledPoints: GPXPoint[] = [points[0]]; // Always include first point
-  let accumulatedDistance = 0;
-  let lastSampledIndex = 0;
+function samplePointsAtInterval(points: GPXPoint[], intervalDistance: number): SampledSegment {
+  const samples: SampledSegment['samples'] = [{ point: points[0], distance: 0 }]; // Always include first point
+  const cumulative = [0];
+  let segmentDistance = 0;
+  let nextSampleDistance = intervalDistance;
   
   for (let i = 1; i < points.length; i++) {
-    const distance = calculateDistance(
-      points[i - 1].lat,
-      points[i - 1].lon,
-      points[i].lat,
-      points[i].lon
-    );
-    
-    accumulatedDistance += distance;
+    const previous = points[i - 1];
+    const current = points[i];
+    const distance = calculateDistance(previous.lat, previous.lon, current.lat, current.lon);
     
-    // If we've traveled the interval distance, add this point
-    if (accumulatedDistance >= intervalDistance) {
-      sampledPoints.push(points[i]);
-      accumulatedDistance = 0;
-      lastSampledIndex = i;
+    // Place every sample that falls on this stretch of the track
+    while (distance > 0 && nextSampleDistance <= segmentDistance + distance) {
+      const fraction = (nextSampleDistance - segmentDistance) / distance;
+      samples.push({
+        point: interpolatePoint(previous, current, fraction),
+        distance: nextSampleDistance
+      });
+      nextSampleDistance += intervalDistance;
     }
+    
+    segmentDistance += distance;
+    cumulative.push(segmentDistance);
   }
   
   // Always include the last point if it's not already included
   const lastPoint = points[points.length - 1];
-  const lastSampledPoint = sampledPoints[sampledPoints.length - 1];
+  const lastSample = samples[samples.length - 1];
+  
+  if (segmentDistance - lastSample.distance > END_POINT_TOLERANCE) {
+    samples.push({ point: lastPoint, distance: segmentDistance });
+  }
   
-  if (lastSampledPoint.lat !== lastPoint.lat || lastSampledPoint.lon !== lastPoint.lon) {
-    sampledPoints.push(lastPoint);
+  return { samples, points, cumulative, length: segmentDistance };
+}
+
+// Slower than this between two track points counts as stopped rather than moving
+const MOVING_SPEED_THRESHOLD = 0.5; // m/s
+// Staying within this distance of where it started counts as a single stop
+const STOP_RADIUS = 20; // meters
+// Stops shorter than this still count towards moving time
+const MIN_PAUSE_DURATION = 10; // seconds
+
+/**
+ * Sample a recorded activity every `timeInterval` seconds of moving time.
+ * Time spent stopped, and stretches without timestamps, do not count.
+ */
+function samplePointsByMovingTime(points: GPXPoint[], timeInterval: number): SampledSegment {
+  const segment = samplePointsAtInterval(points, Infinity); // start and end only
+  const { cumulative } = segment;
+  const samples: SampledSegment['samples'] = [segment.samples[0]];
+  const moving = getMovingDurations(points, cumulative);
+  let movingTime = 0;
+  let nextSampleTime = timeInterval;
+  
+  for (let i = 1; i < points.length; i++) {
+    const duration = moving[i];
+    const distance = cumulative[i] - cumulative[i - 1];
+    if (duration === null) continue;
+    
+    // Place every sample that falls within this stretch of moving time
+    while (nextSampleTime <= movingTime + duration) {
+      const fraction = (nextSampleTime - movingTime) / duration;
+      samples.push({
+        point: interpolatePoint(points[i - 1], points[i], fraction),
+        distance: cumulative[i - 1] + distance * fraction
+      });
+      nextSampleTime += timeInterval;
+    }
+    
+    movingTime += duration;
   }
   
-  return sampledPoints;
+  return { ...segment, samples: withLastSample(samples, segment) };
 }
 
 /**
- * Generate Google Street View Static API URL
+ * Seconds spent moving in a segment, or null if it has no timestamps
  */
-function generateStreetViewURL(
-  lat: number,
-  lng: number,
-  heading: number = 0,
-  apiKey: string,
-  size: string = '640x640',
-  fov: number = 90,
-  pitch: number = 0
-): string {
-  const baseUrl = 'https://maps.googleapis.com/maps/api/streetview';
-  const params = new URLSearchParams({
-    size,
-    location: `${lat},${lng}`,
-    heading: heading.toString(),
-    pitch: pitch.toString(),
-    fov: fov.toString(),
-    key: apiKey
+export function getMovingTime(points: GPXPoint[]): number | null {
+  if (!points.some(point => point.time)) return null;
+  
+  const { cumulative } = samplePointsAtInterval(points, Infinity);
+  return getMovingDurations(points, cumulative).reduce<number>((sum, duration) => sum + (duration ?? 0), 0);
+}
+
+/**
+ * Duration of each stretch between a track point and the one before it, or null for stretches
+ * spent stopped, moving too slowly or without timestamps
+ */
+function getMovingDurations(points: GPXPoint[], cumulative: number[]): Array<number | null> {
+  // Mark the stretches between track points that belong to a stop
+  const stopped = new Array<boolean>(points.length).fill(false);
+  findStops(points, MIN_PAUSE_DURATION).forEach(([from, to]) => {
+    for (let i = from + 1; i <= to; i++) stopped[i] = true;
+  });
+  
+  return points.map((point, i) => {
+    if (i === 0 || stopped[i]) return null;
+    
+    const duration = getDuration(points[i - 1], point);
+    const distance = cumulative[i] - cumulative[i - 1];
+    return duration === null || duration <= 0 || distance / duration < MOVING_SPEED_THRESHOLD ? null : duration;
+  });
+}
+
+/**
+ * Sample a recorded activity at its start and end and at every stop of at least `minStopDuration` seconds
+ */
+function samplePointsAtStops(points: GPXPoint[], minStopDuration: number): SampledSegment {
+  const segment = samplePointsAtInterval(points, Infinity); // start and end only
+  const { cumulative } = segment;
+  const samples: SampledSegment['samples'] = [segment.samples[0]];
+  
+  findStops(points, minStopDuration).forEach(([from]) => {
+    if (cumulative[from] - samples[samples.length - 1].distance > END_POINT_TOLERANCE) {
+      samples.push({ point: points[from], distance: cumulative[from] });
+    }
+  });
+  
+  return { ...segment, samples: withLastSample(samples, segment) };
+}
+
+/**
+ * Find [first, last] index ranges where the track stayed within STOP_RADIUS of where it
+ * started for at least `minDuration` seconds (including pauses recorded as a gap in time)
+ */
+function findStops(points: GPXPoint[], minDuration: number): Array<[number, number]> {
+  const stops: Array<[number, number]> = [];
+  let i = 0;
+  
+  while (i < points.length - 1) {
+    // Extend the stop as long as the track stays close to where it started
+    let j = i;
+    while (
+      j + 1 < points.length &&
+      calculateDistance(points[i].lat, points[i].lon, points[j + 1].lat, points[j + 1].lon) <= STOP_RADIUS
+    ) {
+      j++;
+    }
+    
+    const duration = getDuration(points[i], points[j]);
+    if (duration !== null && duration >= minDuration) {
+      stops.push([i, j]);
+      i = j + 1;
+    } else {
+      i++;
+    }
+  }
+  
+  return stops;
+}
+
+/**
+ * Append the segment's last point to `samples` unless it is already there
+ */
+function withLastSample(samples: SampledSegment['samples'], segment: SampledSegment): SampledSegment['samples'] {
+  const last = segment.samples[segment.samples.length - 1];
+  return last.distance - samples[samples.length - 1].distance > END_POINT_TOLERANCE
+    ? [...samples, last]
+    : samples;
+}
+
+/**
+ * Seconds between two track points, or null if either has no valid time
+ */
+function getDuration(from: GPXPoint, to: GPXPoint): number | null {
+  const start = from.time?.getTime();
+  const end = to.time?.getTime();
+  if (start === undefined || end === undefined || isNaN(start) || isNaN(end)) return null;
+  return (end - start) / 1000;
+}
+
+// Samples closer together than this are considered the same frame
+const MIN_SAMPLE_SEPARATION = 1; // meters
+
+/**
+ * Add the frames of dense stretches and waypoints to the regularly sampled frames
+ */
+function addExtraSamples(segments: SampledSegment[], sampling: SamplingOptions): SampledSegment[] {
+  let sampledSegments = segments;
+  
+  // Add the extra frames of stretches that were asked to be sampled densely
+  const denseStretches = sampling.denseStretches ?? [];
+  if (denseStretches.length > 0) {
+    const segmentStartDistances = getSegmentStartDistances(sampledSegments);
+    sampledSegments = sampledSegments.map((segment, segmentIndex) =>
+      addDenseSamples(segment, segmentStartDistances[segmentIndex], denseStretches)
+    );
+  }
+  
+  // Every waypoint near the route gets a frame of its own
+  const waypoints = sampling.waypoints ?? [];
+  if (waypoints.length > 0) {
+    sampledSegments = addWaypointSamples(sampledSegments, waypoints);
+  }
+  
+  return sampledSegments;
+}
+
+/**
+ * Number of frames dense stretches and waypoints add on their own
+ */
+function countExtraSamples(segments: GPXPoint[][], sampling: SamplingOptions): number {
+  const unsampled = segments.map(segment => ({ ...samplePointsAtInterval(segment, Infinity), samples: [] }));
+  return addExtraSamples(unsampled, sampling).reduce((sum, segment) => sum + segment.samples.length, 0);
+}
+
+/**
+ * Thin out frames evenly until there are no more than `budget`. Waypoint frames are only dropped
+ * once no other frames are left to drop, and the ends of each segment only after that (e.g. for
+ * a file with more segments than the budget).
+ */
+function applyBudget(segments: SampledSegment[], budget: number): SampledSegment[] {
+  const total = segments.reduce((sum, segment) => sum + segment.samples.length, 0);
+  let excess = total - budget;
+  if (excess <= 0) return segments;
+  
+  const interior = (isWaypoint: boolean) => segments.flatMap(segment =>
+    segment.samples.slice(1, -1).filter(sample => !!sample.waypoint === isWaypoint)
+  );
+  const ends = segments.flatMap(segment =>
+    segment.samples.length > 1 ? [segment.samples[0], segment.samples[segment.samples.length - 1]] : segment.samples
+  );
+  
+  const removed = new Set<SampledSegment['samples'][number]>();
+  for (const candidates of [interior(false), interior(true), ends]) {
+    const count = Math.min(excess, candidates.length);
+    // Spread the removed frames over the whole route so the rest stay evenly spaced
+    for (let i = 0; i < count; i++) {
+      removed.add(candidates[Math.floor(((i + 0.5) * candidates.length) / count)]);
+    }
+    excess -= count;
+  }
+  
+  return segments.map(segment => ({ ...segment, samples: segment.samples.filter(sample => !removed.has(sample)) }));
+}
+
+/**
+ * Add samples every `intervalDistance` along the parts of a segment covered by dense stretches.
+ * `startDistance` is the distance from the start of the route to the start of the segment.
+ */
+function addDenseSamples(
+  segment: SampledSegment,
+  startDistance: number,
+  stretches: DenseStretch[]
+): SampledSegment {
+  const denseSamples: SampledSegment['samples'] = [];
+  
+  stretches.forEach(stretch => {
+    const from = Math.max(0, stretch.startDistance - startDistance);
+    const to = Math.min(segment.length, stretch.endDistance - startDistance);
+    
+    for (let distance = from; distance <= to; distance += stretch.intervalDistance) {
+      denseSamples.push({ point: getPositionAt(segment, distance), distance });
+    }
+  });
+  
+  if (denseSamples.length === 0) return segment;
+  
+  const samples = [...segment.samples, ...denseSamples]
+    .sort((a, b) => a.distance - b.distance)
+    .filter((sample, index, sorted) =>
+      index === 0 || sample.distance - sorted[index - 1].distance >= MIN_SAMPLE_SEPARATION
+    );
+  
+  return { ...segment, samples };
+}
+
+// Waypoints further than this from the route (e.g. along another track of the file) are ignored
+const MAX_WAYPOINT_DISTANCE = 200; // meters
+
+/**
+ * Snap each waypoint to the nearest position on the route and add a frame there.
+ * Regular frames within MIN_SAMPLE_SEPARATION of a waypoint frame are dropped in its favour.
+ */
+function addWaypointSamples(segments: SampledSegment[], waypoints: GPXWaypoint[]): SampledSegment[] {
+  const waypointSamples: SampledSegment['samples'][] = segments.map(() => []);
+  
+  waypoints.forEach(waypoint => {
+    let nearestSegment = -1;
+    let nearest = { distance: 0, offset: Infinity };
+    
+    segments.forEach((segment, segmentIndex) => {
+      const snapped = snapToSegment(segment, waypoint);
+      if (snapped.offset < nearest.offset) {
+        nearestSegment = segmentIndex;
+        nearest = snapped;
+      }
+    });
+    
+    if (nearestSegment === -1 || nearest.offset > MAX_WAYPOINT_DISTANCE) return;
+    
+    waypointSamples[nearestSegment].push({
+      point: getPositionAt(segments[nearestSegment], nearest.distance),
+      distance: nearest.distance,
+      waypoint
+    });
+  });
+  
+  return segments.map((segment, segmentIndex) => {
+    const added = waypointSamples[segmentIndex];
+    if (added.length === 0) return segment;
+    
+    const kept = segment.samples.filter(sample =>
+      added.every(waypointSample => Math.abs(sample.distance - waypointSample.distance) >= MIN_SAMPLE_SEPARATION)
+    );
+    return { ...segment, samples: [...kept, ...added].sort((a, b) => a.distance - b.distance) };
+  });
+}
+
+/**
+ * Distance along the segment of the position nearest to `target`, and how far `target` is from it.
+ * Each leg is projected onto a flat local frame, which is accurate at the scale of a track leg.
+ */
+function snapToSegment(segment: SampledSegment, target: GPXPoint): { distance: number; offset: number } {
+  const { points, cumulative } = segment;
+  let best = {
+    distance: 0,
+    offset: calculateDistance(points[0].lat, points[0].lon, target.lat, target.lon)
+  };
+  
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    
+    const scale = Math.cos((from.lat * Math.PI) / 180);
+    const dx = (to.lon - from.lon) * scale;
+    const dy = to.lat - from.lat;
+    const lengthSquared = dx * dx + dy * dy;
+    const fraction = lengthSquared > 0
+      ? Math.min(1, Math.max(0, ((target.lon - from.lon) * scale * dx + (target.lat - from.lat) * dy) / lengthSquared))
+      : 0;
+    
+    const distance = cumulative[i - 1] + (cumulative[i] - cumulative[i - 1]) * fraction;
+    const position = getPositionAt(segment, distance);
+    const offset = calculateDistance(position.lat, position.lon, target.lat, target.lon);
+    
+    if (offset < best.offset) {
+      best = { distance, offset };
+    }
+  }
+  
+  return best;
+}
+
+// Adaptive sampling: candidate frames are laid out this densely and then thinned out
+const MIN_CANDIDATE_SPACING = 5; // meters
+// Distance either side of a candidate used to measure the bearing change through it
+const TURN_WINDOW = 25; // meters
+// Frames are densified this far ahead of a turn, so it can be recognised on approach
+const TURN_LOOKAHEAD = 100; // meters
+// Bearing changes below MIN_TURN_ANGLE count as straight, above FULL_TURN_ANGLE as a full turn
+const MIN_TURN_ANGLE = 20; // degrees
+const FULL_TURN_ANGLE = 90; // degrees
+// Frame spacing relative to the interval setting, on straights and through full turns
+const STRAIGHT_SPACING_FACTOR = 4;
+const TURN_SPACING_FACTOR = 0.5;
+
+/**
+ * Sample segments with frames concentrated before and through turns and spread out on straights.
+ * The frame density follows the bearing change along the route and is scaled down as a whole
+ * so that the total number of frames never exceeds `creditBudget`.
+ */
+function sampleAdaptively(
+  segments: GPXPoint[][],
+  intervalDistance: number,
+  creditBudget: number
+): SampledSegment[] {
+  const candidateSpacing = Math.max(MIN_CANDIDATE_SPACING, intervalDistance / 5);
+  const candidateSegments = segments.map(segment => samplePointsAtInterval(segment, candidateSpacing));
+
+  // Every segment keeps its start and end, the rest of the budget goes to frames in between
+  const interiorBudget = creditBudget - 2 * candidateSegments.length;
+  if (interiorBudget < 0) {
+    return candidateSegments
+      .slice(0, Math.max(0, creditBudget))
+      .map(segment => ({ ...segment, samples: segment.samples.slice(0, 1) }));
+  }
+
+  const straightDensity = 1 / (intervalDistance * STRAIGHT_SPACING_FACTOR);
+  const turnDensity = 1 / (intervalDistance * TURN_SPACING_FACTOR);
+
+  // Cumulative number of frames wanted up to each candidate
+  const cumulativeFrames = candidateSegments.map(({ samples }) => {
+    const densities = getTurnDensities(samples, straightDensity, turnDensity);
+    const cumulative = [0];
+    for (let i = 1; i < samples.length; i++) {
+      const stretch = samples[i].distance - samples[i - 1].distance;
+      cumulative.push(cumulative[i - 1] + stretch * (densities[i - 1] + densities[i]) / 2);
+    }
+    return cumulative;
+  });
+
+  const wantedFrames = cumulativeFrames.reduce((sum, cumulative) => sum + cumulative[cumulative.length - 1], 0);
+  const scale = wantedFrames > interiorBudget ? interiorBudget / wantedFrames : 1;
+
+  return candidateSegments.map((segment, segmentIndex) => {
+    const cumulative = cumulativeFrames[segmentIndex];
+    const samples = [segment.samples[0]];
+    let nextFrame = 1;
+
+    // A candidate becomes a frame where the scaled cumulative count reaches the next whole frame
+    for (let i = 1; i < segment.samples.length - 1; i++) {
+      if (cumulative[i] * scale >= nextFrame) {
+        samples.push(segment.samples[i]);
+        nextFrame = Math.floor(cumulative[i] * scale) + 1;
+      }
+    }
+
+    if (segment.samples.length > 1) {
+      samples.push(segment.samples[segment.samples.length - 1]);
+    }
+
+    return { ...segment, samples };
   });
+}
+
+/**
+ * Wanted frame density (frames per meter) at each candidate, based on the largest
+ * bearing change just behind it or within TURN_LOOKAHEAD ahead of it
+ */
+function getTurnDensities(
+  samples: SampledSegment['samples'],
+  straightDensity: number,
+  turnDensity: number
+): number[] {
+  const point = (index: number) => samples[Math.max(0, Math.min(samples.length - 1, index))].point;
+  const spacing = samples.length > 1 ? samples[1].distance : 1;
+  const window = Math.max(1, Math.round(TURN_WINDOW / spacing));
+
+  const turnDensities = samples.map((_, i) => {
+    if (i === 0 || i === samples.length - 1) return straightDensity;
+
+    const before = point(i - window);
+    const after = point(i + window);
+    const current = point(i);
+    const bearingIn = calculateBearing(before.lat, before.lon, current.lat, current.lon);
+    const bearingOut = calculateBearing(current.lat, current.lon, after.lat, after.lon);
+    const turn = Math.abs(angleDifference(bearingIn, bearingOut));
+
+    const sharpness = Math.min(1, Math.max(0, (turn - MIN_TURN_ANGLE) / (FULL_TURN_ANGLE - MIN_TURN_ANGLE)));
+    return straightDensity + (turnDensity - straightDensity) * sharpness;
+  });
+
+  return samples.map((sample, i) => {
+    let density = turnDensities[i];
+    for (let j = i - 1; j >= 0 && sample.distance - samples[j].distance <= TURN_WINDOW; j--) {
+      density = Math.max(density, turnDensities[j]);
+    }
+    for (let j = i + 1; j < samples.length && samples[j].distance - sample.distance <= TURN_LOOKAHEAD; j++) {
+      density = Math.max(density, turnDensities[j]);
+    }
+    return density;
+  });
+}
+
+// Number of points within the look-ahead distance whose bearings are averaged
+const HEADING_SAMPLES = 5;
+
+/**
+ * Heading from a position towards the route ahead of it: the circular mean of the bearings to
+ * HEADING_SAMPLES points spread over the next `lookAhead` meters, which evens out GPS jitter.
+ * Returns null at the end of the segment, where there is nothing ahead.
+ */
+function getLookAheadHeading(segment: SampledSegment, distance: number, lookAhead: number): number | null {
+  const from = getPositionAt(segment, distance);
+  const bearings: number[] = [];
   
-  return `${baseUrl}?${params.toString()}`;
+  for (let k = 1; k <= HEADING_SAMPLES; k++) {
+    const target = Math.min(distance + (lookAhead * k) / HEADING_SAMPLES, segment.length);
+    if (target - distance <= END_POINT_TOLERANCE) break;
+    
+    const to = getPositionAt(segment, target);
+    bearings.push(calculateBearing(from.lat, from.lon, to.lat, to.lon));
+  }
+  
+  return bearings.length > 0 ? circularMean(bearings) : null;
+}
+
+/**
+ * Direction of travel at the end of a segment, for segments with a single frame
+ */
+function getLookBehindHeading(segment: SampledSegment, lookAhead: number): number {
+  if (segment.length <= END_POINT_TOLERANCE) return 0;
+  
+  const from = getPositionAt(segment, Math.max(0, segment.length - lookAhead));
+  const to = getPositionAt(segment, segment.length);
+  return circularMean([calculateBearing(from.lat, from.lon, to.lat, to.lon)]);
 }
 
+/**
+ * Interpolated position at a distance along the segment
+ */
+function getPositionAt(segment: SampledSegment, distance: number): GPXPoint {
+  const { points, cumulative } = segment;
+  
+  // Binary search for the last track point at or before `distance`
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (cumulative[mid] <= distance) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  
+  const next = points[low + 1];
+  if (!next) return points[low];
+  
+  const stretch = cumulative[low + 1] - cumulative[low];
+  return stretch > 0 ? interpolatePoint(points[low], next, (distance - cumulative[low]) / stretch) : points[low];
+}
+
+/**
+ * Interpolate position, elevation and time between two track points
+ */
+export function interpolatePoint(from: GPXPoint, to: GPXPoint, fraction: number): GPXPoint {
+  if (fraction <= 0) return from;
+  if (fraction >= 1) return to;
+  
+  const { lat, lon } = interpolateGreatCircle(from.lat, from.lon, to.lat, to.lon, fraction);
+  const point: GPXPoint = { lat, lon };
+  
+  if (from.ele !== undefined && to.ele !== undefined) {
+    point.ele = from.ele + (to.ele - from.ele) * fraction;
+  }
+  if (from.time && to.time) {
+    point.time = new Date(from.time.getTime() + (to.time.getTime() - from.time.getTime()) * fraction);
+  }
+  
+  return point;
+}
+
+// Metadata requests run this many at a time
+const METADATA_CONCURRENCY = 8;
+// Points without coverage are looked up again with double the radius, up to this far
+export const MAX_SEARCH_RADIUS = 200; // meters
+// Lookups per point, however small the starting radius is
+const MAX_SEARCH_ATTEMPTS = 4;
+
 /**
  * Check if Street View is available at a location
  */
 export async function checkStreetViewAvailability(
   lat: number,
   lng: number,
-  apiKey: string
+  apiKey: string,
+  provider: ImageryProvider = googleProvider
 ): Promise<boolean> {
   try {
-    const url = `https://maps.googleapis.com/maps/api/streetview/metadata?location=${lat},${lng}&key=${apiKey}`;
-    const response = await fetch(url);
-    const data = await response.json();
-    return data.status === 'OK';
+    const metadata = await provider.findImagery(lat, lng, 0, { apiKey, search: { radius: 50, source: 'default' } });
+    return metadata.status === 'OK';
   } catch (error) {
     console.warn('Failed to check Street View availability:', error);
     return false;
   }
 }
 
+/**
+ * Look up Street View metadata for every frame before any image is loaded, snapping each frame
+ * to the panorama found. Frames whose request fails are left unchecked, so their image is still
+ * tried; if every request fails the last error is thrown.
+ */
+export async function checkStreetViewCoverage(
+  images: StreetViewImage[],
+  provider: ImageryProvider,
+  options: ImagerySearchOptions,
+  onProgress?: (checked: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<StreetViewImage[]> {
+  const checked = [...images];
+  let next = 0;
+  let done = 0;
+  let failures = 0;
+  let lastError: unknown;
+
+  const checkNext = async () => {
+    while (next < images.length) {
+      const index = next++;
+      const { lat, lng } = images[index].coordinates;
+      try {
+        const { metadata, radius } = await findPanorama(images[index], provider, options, signal);
+        const snap = metadata.status === 'OK' && metadata.location
+          ? {
+              location: metadata.location,
+              offset: calculateDistance(lat, lng, metadata.location.lat, metadata.location.lng),
+              radius
+            }
+          : undefined;
+        checked[index] = { ...images[index], metadata, snap };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        failures++;
+        lastError = error;
+      }
+      onProgress?.(++done, images.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(METADATA_CONCURRENCY, images.length) }, checkNext));
+  if (images.length > 0 && failures === images.length) {
+    throw lastError;
+  }
+  if (failures > 0) {
+    console.warn(`Failed to fetch Street View metadata for ${failures} of ${images.length} frames:`, lastError);
+  }
+  return checked;
+}
+
+/**
+ * Look up the imagery for a frame, widening the search radius while none is found
+ */
+async function findPanorama(
+  image: StreetViewImage,
+  provider: ImageryProvider,
+  options: ImagerySearchOptions,
+  signal?: AbortSignal
+): Promise<{ metadata: StreetViewMetadata; radius: number }> {
+  const { lat, lng } = image.coordinates;
+  let radius = options.search.radius;
+  for (let attempt = 1; ; attempt++) {
+    const metadata = await provider.findImagery(
+      lat,
+      lng,
+      getImageHeading(image),
+      { ...options, search: { ...options.search, radius } },
+      signal
+    );
+    if (metadata.status === 'OK' || radius >= MAX_SEARCH_RADIUS || attempt >= MAX_SEARCH_ATTEMPTS) {
+      return { metadata, radius };
+    }
+    radius = Math.min(radius * 2, MAX_SEARCH_RADIUS);
+  }
+}
+
 /**
  * Preload multiple Street View images
  */
 export async function preloadMultipleStreetViewImages(
   images: StreetViewImage[],
-  apiKey: string,
-  size: string = '640x640',
-  fov: number = 90,
-  pitch: number = 0,
+  provider: ImageryProvider,
+  options: ImageryOptions,
   onProgress?: (loaded: number, total: number) => void
 ): Promise<StreetViewImage[]> {
   const loadPromises = images.map(async (image, index) => {
-    const result = await loadStreetViewImage(image, apiKey, size, fov, pitch);
+    const result = await loadStreetViewImage(image, provider, options);
     
     if (onProgress) {
       onProgress(index + 1, images.length);
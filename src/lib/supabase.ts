@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { useEffect, useState } from 'react';
 import type { User } from '@supabase/supabase-js';
+import type { RouteStats } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -70,6 +71,13 @@ export interface GPXFile {
   route_name?: string;
   total_distance?: number;
   total_points?: number;
+  total_ascent?: number | null;
+  total_descent?: number | null;
+  min_elevation?: number | null;
+  max_elevation?: number | null;
+  moving_time?: number | null; // seconds
+  elapsed_time?: number | null; // seconds
+  bounds?: RouteStats['bounds'] | null;
   processed_images_count: number;
   created_at: string;
   updated_at: string;
@@ -1,4 +1,5 @@
 import { supabase, UserProfile, GPXFile, CreditTransaction } from './supabase';
+import type { RouteStats } from '../types';
 import { useUser } from './supabase';
 import React from 'react';
 
@@ -180,8 +181,7 @@ export class UserService {
     fileSize: number,
     storagePath: string,
     routeName?: string,
-    totalDistance?: number,
-    totalPoints?: number
+    stats?: RouteStats
   ): Promise<GPXFile> {
     // First get the user profile to get the user_id
     const profile = await this.getProfile(userId);
@@ -198,8 +198,15 @@ export class UserService {
         file_size: fileSize,
         storage_path: storagePath,
         route_name: routeName,
-        total_distance: totalDistance,
-        total_points: totalPoints
+        total_distance: stats?.distance,
+        total_points: stats?.pointCount,
+        total_ascent: stats?.ascent,
+        total_descent: stats?.descent,
+        min_elevation: stats?.minElevation,
+        max_elevation: stats?.maxElevation,
+        moving_time: stats?.movingTime,
+        elapsed_time: stats?.elapsedTime,
+        bounds: stats?.bounds
       })
       .select()
       .single();
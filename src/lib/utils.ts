@@ -27,6 +27,105 @@ export function calculateDistance(
   return R * c;
 }
 
+// WGS84 ellipsoid
+const WGS84_A = 6378137; // semi-major axis, meters
+const WGS84_F = 1 / 298.257223563; // flattening
+const WGS84_B = WGS84_A * (1 - WGS84_F); // semi-minor axis, meters
+
+/**
+ * Calculate the distance between two GPS coordinates on the WGS84 ellipsoid using Vincenty's
+ * inverse formula (accurate to well under a millimeter, but slower than the Haversine formula).
+ * Falls back to the Haversine formula for nearly antipodal points, where it does not converge.
+ */
+export function calculateDistanceVincenty(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const L = toRadians(lon2 - lon1);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat1)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat2)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    const sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) return 0; // coincident points
+
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    const sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // On the equator cosSqAlpha is 0
+    const cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+
+    const previousLambda = lambda;
+    lambda = L + (1 - C) * WGS84_F * sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+    if (Math.abs(lambda - previousLambda) < 1e-12) {
+      const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) *
+        (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+          (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+
+      return WGS84_B * A * (sigma - deltaSigma);
+    }
+  }
+
+  return calculateDistance(lat1, lon1, lat2, lon2);
+}
+
+/**
+ * Find the point a fraction of the way along the great circle between two GPS coordinates
+ */
+export function interpolateGreatCircle(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+  fraction: number
+): { lat: number; lon: number } {
+  const lat1Rad = toRadians(lat1);
+  const lon1Rad = toRadians(lon1);
+  const lat2Rad = toRadians(lat2);
+  const lon2Rad = toRadians(lon2);
+
+  // Angular distance between the two points
+  const dLat = lat2Rad - lat1Rad;
+  const dLon = lon2Rad - lon1Rad;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1Rad) * Math.cos(lat2Rad) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const angle = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  if (angle === 0) {
+    return { lat: lat1, lon: lon1 };
+  }
+
+  const A = Math.sin((1 - fraction) * angle) / Math.sin(angle);
+  const B = Math.sin(fraction * angle) / Math.sin(angle);
+  const x = A * Math.cos(lat1Rad) * Math.cos(lon1Rad) + B * Math.cos(lat2Rad) * Math.cos(lon2Rad);
+  const y = A * Math.cos(lat1Rad) * Math.sin(lon1Rad) + B * Math.cos(lat2Rad) * Math.sin(lon2Rad);
+  const z = A * Math.sin(lat1Rad) + B * Math.sin(lat2Rad);
+
+  return {
+    lat: (Math.atan2(z, Math.sqrt(x * x + y * y)) * 180) / Math.PI,
+    lon: (Math.atan2(y, x) * 180) / Math.PI
+  };
+}
+
 /**
  * Convert degrees to radians
  */
@@ -52,6 +151,27 @@ export function calculateBearing(
   return (bearing * 180) / Math.PI;
 }
 
+/**
+ * Signed difference between two bearings, normalised to the range -180..180 degrees
+ */
+export function angleDifference(from: number, to: number): number {
+  return ((((to - from) % 360) + 540) % 360) - 180;
+}
+
+/**
+ * Average of a list of bearings, taking wrap-around at north into account (0..360 degrees)
+ */
+export function circularMean(bearings: number[]): number {
+  let x = 0;
+  let y = 0;
+  for (const bearing of bearings) {
+    x += Math.cos(toRadians(bearing));
+    y += Math.sin(toRadians(bearing));
+  }
+  const mean = (Math.atan2(y, x) * 180) / Math.PI;
+  return (mean + 360) % 360;
+}
+
 /**
  * Format distance for display
  */
@@ -62,6 +182,17 @@ export function formatDistance(meters: number): string {
   return `${(meters / 1000).toFixed(1)}km`;
 }
 
+/**
+ * Format a duration in seconds for display, e.g. "1:05:09" or "5:09"
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
 /**
  * Format coordinates for display
  */
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { getWaypointKind, getWaypointLabel } from './waypoints';
+
+describe('getWaypointKind', () => {
+  it('classifies waypoints by their symbol or type', () => {
+    expect(getWaypointKind({ lat: 0, lon: 0, sym: 'Drinking Water' })).toBe('water');
+    expect(getWaypointKind({ lat: 0, lon: 0, type: 'Food' })).toBe('food');
+    expect(getWaypointKind({ lat: 0, lon: 0, sym: 'Summit', type: 'Category 2' })).toBe('summit');
+    expect(getWaypointKind({ lat: 0, lon: 0, type: 'First Aid' })).toBe('danger');
+    expect(getWaypointKind({ lat: 0, lon: 0, name: 'Water stop' })).toBe('other');
+  });
+});
+
+describe('getWaypointLabel', () => {
+  it('falls back from the name to the description, symbol and kind', () => {
+    expect(getWaypointLabel({ lat: 0, lon: 0, name: 'Col du Tourmalet', sym: 'Summit' })).toBe('Col du Tourmalet');
+    expect(getWaypointLabel({ lat: 0, lon: 0, desc: 'Bakery', sym: 'Shopping' })).toBe('Bakery');
+    expect(getWaypointLabel({ lat: 0, lon: 0, sym: 'Scenic Area' })).toBe('Scenic Area');
+    expect(getWaypointLabel({ lat: 0, lon: 0, type: 'hotel' })).toBe('Lodging');
+  });
+});
@@ -0,0 +1,50 @@
+import type { GPXWaypoint } from '../types';
+
+export type WaypointKind = 'water' | 'food' | 'summit' | 'lodging' | 'danger' | 'scenic' | 'other';
+
+// Words in a waypoint's symbol or type that identify its kind, checked in order.
+// Covers the Garmin symbol names and TCX course point types most route planners write.
+const KIND_KEYWORDS: Array<[WaypointKind, string[]]> = [
+  ['water', ['water', 'drink', 'fountain']],
+  ['food', ['food', 'restaurant', 'cafe', 'coffee', 'shop', 'store', 'grocery']],
+  ['summit', ['summit', 'peak', 'col', 'category', 'climb']],
+  ['lodging', ['lodging', 'hotel', 'camp', 'hut', 'shelter']],
+  ['danger', ['danger', 'caution', 'hazard', 'first aid', 'medical']],
+  ['scenic', ['scenic', 'view', 'photo']]
+];
+
+export const WAYPOINT_KIND_LABELS: Record<WaypointKind, string> = {
+  water: 'Water',
+  food: 'Food',
+  summit: 'Summit',
+  lodging: 'Lodging',
+  danger: 'Danger',
+  scenic: 'Scenic',
+  other: 'Waypoint'
+};
+
+export const WAYPOINT_KIND_COLORS: Record<WaypointKind, string> = {
+  water: '#0ea5e9',
+  food: '#f97316',
+  summit: '#8b5cf6',
+  lodging: '#14b8a6',
+  danger: '#dc2626',
+  scenic: '#16a34a',
+  other: '#db2777'
+};
+
+/**
+ * Classify a waypoint from its symbol and type
+ */
+export function getWaypointKind(waypoint: GPXWaypoint): WaypointKind {
+  const text = `${waypoint.sym ?? ''} ${waypoint.type ?? ''}`.toLowerCase();
+  const match = KIND_KEYWORDS.find(([, keywords]) => keywords.some(keyword => text.includes(keyword)));
+  return match ? match[0] : 'other';
+}
+
+/**
+ * Name to show for a waypoint, falling back to its description, symbol or kind
+ */
+export function getWaypointLabel(waypoint: GPXWaypoint): string {
+  return waypoint.name || waypoint.desc || waypoint.sym || WAYPOINT_KIND_LABELS[getWaypointKind(waypoint)];
+}
@@ -1,18 +1,59 @@
+export interface GPXSensorData {
+  hr?: number; // heart rate, bpm
+  cad?: number; // cadence, rpm
+  atemp?: number; // ambient temperature, °C
+  power?: number; // watts
+  speed?: number; // m/s
+}
+
 export interface GPXPoint {
   lat: number;
   lon: number;
   ele?: number;
   time?: Date;
+  sensors?: GPXSensorData;
+  line?: number; // source line in the file, for validation reports
+}
+
+export interface GPXWaypoint extends GPXPoint {
+  name?: string;
+  desc?: string;
+  sym?: string; // symbol name, e.g. "Drinking Water" or "Summit"
+  type?: string;
 }
 
 export interface GPXTrack {
   name?: string;
+  points: GPXPoint[]; // all segments joined
+  segments: GPXPoint[][];
+}
+
+export interface GPXRoute {
+  name?: string;
+  desc?: string;
   points: GPXPoint[];
 }
 
+export type GPXIssueType =
+  | 'missing-coordinates'
+  | 'out-of-range'
+  | 'zero-island'
+  | 'non-monotonic-time'
+  | 'duplicate-point'
+  | 'teleport';
+
+export interface GPXIssue {
+  type: GPXIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+}
+
 export interface GPXData {
   tracks: GPXTrack[];
-  waypoints?: GPXPoint[];
+  routes: GPXRoute[];
+  issues?: GPXIssue[]; // problems found while reading the file (e.g. skipped points)
+  waypoints?: GPXWaypoint[];
   metadata?: {
     name?: string;
     desc?: string;
@@ -20,6 +61,58 @@ export interface GPXData {
   };
 }
 
+export type RouteFileFormat = 'gpx' | 'tcx' | 'kml' | 'kmz' | 'geojson' | 'fit';
+
+// How several uploaded files are combined: kept as separate routes or joined into one
+export type RouteMergeMode = 'separate' | 'join';
+
+export interface GPXSource {
+  type: 'track' | 'route';
+  index: number;
+}
+
+// 'same' for a repeated lap, 'opposite' for the return leg of an out-and-back
+export type OverlapDirection = 'same' | 'opposite';
+
+export interface FrameOverlap {
+  imageId: string; // the earlier frame that first covered this place
+  direction: OverlapDirection;
+}
+
+// Status returned by the Street View metadata API
+export type StreetViewStatus =
+  | 'OK'
+  | 'ZERO_RESULTS'
+  | 'NOT_FOUND'
+  | 'OVER_QUERY_LIMIT'
+  | 'REQUEST_DENIED'
+  | 'INVALID_REQUEST'
+  | 'UNKNOWN_ERROR';
+
+export interface StreetViewMetadata {
+  status: StreetViewStatus;
+  panoId?: string;
+  date?: string; // month the panorama was captured, e.g. "2019-05"
+  location?: { lat: number; lng: number }; // where the panorama actually is
+  copyright?: string;
+}
+
+// Which panoramas Street View may return; 'outdoor' leaves out indoor business panoramas
+export type StreetViewSource = 'default' | 'outdoor';
+
+// How the panorama for a point is looked up
+export interface StreetViewSearch {
+  radius: number; // meters around the point
+  source: StreetViewSource;
+}
+
+// Where the coverage check found the panorama for a frame
+export interface PanoramaSnap {
+  location: { lat: number; lng: number };
+  offset: number; // meters from the frame to the panorama
+  radius: number; // meters searched when the panorama was found
+}
+
 export interface StreetViewImage {
   id: string;
   url?: string;
@@ -28,26 +121,162 @@ export interface StreetViewImage {
     lng: number;
   };
   heading?: number;
+  headingOverride?: number; // set by the user, takes precedence over the computed heading
   pitch?: number;
   distance: number;
+  elevation?: number; // meters
+  time?: Date; // recorded time at this position
+  elapsedTime?: number; // seconds since the first recorded time of the route
+  segmentIndex: number;
+  sensors?: GPXSensorData;
+  waypoint?: GPXWaypoint; // the waypoint this frame was generated for
+  overlap?: FrameOverlap; // an earlier frame already covers this stretch of road
+  reusedFrom?: string; // id of the earlier frame whose image (or, on a return leg, panorama) is shown
+  metadata?: StreetViewMetadata; // from the coverage check, before any image is loaded
+  snap?: PanoramaSnap; // set when the coverage check found a panorama
   loaded: boolean;
   error?: string;
   isLoading?: boolean;
 }
 
+export type TurnDirection =
+  | 'slight-left'
+  | 'left'
+  | 'sharp-left'
+  | 'slight-right'
+  | 'right'
+  | 'sharp-right'
+  | 'u-turn'
+  | 'roundabout';
+
+export interface Cue {
+  distance: number; // meters from the start of the route
+  direction: TurnDirection;
+  angle: number; // net change of direction in degrees, positive to the right
+  coordinates: {
+    lat: number;
+    lng: number;
+  };
+  frameIndex: number; // index of the nearest image
+}
+
+export interface ElevationStats {
+  ascent: number; // meters
+  descent: number; // meters
+  maxGradient: number; // percent
+  minElevation: number; // meters
+  maxElevation: number; // meters
+}
+
+// Haversine treats the Earth as a sphere; Vincenty uses the WGS84 ellipsoid and is slower
+export type DistanceFormula = 'haversine' | 'vincenty';
+
+export interface RouteStats {
+  distance: number; // meters, including gaps between segments
+  pointCount: number;
+  ascent: number | null; // meters, null without elevation data
+  descent: number | null; // meters
+  minElevation: number | null; // meters
+  maxElevation: number | null; // meters
+  movingTime: number | null; // seconds, null without timestamps
+  elapsedTime: number | null; // seconds from the first to the last timestamp
+  averageSpeed: number | null; // m/s over the moving time
+  averagePace: number | null; // seconds per kilometer over the moving time
+  bounds: {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+  };
+}
+
+export type ClimbCategory = 'HC' | '1' | '2' | '3' | '4';
+
+export interface Climb {
+  startDistance: number; // meters from the start of the route
+  endDistance: number;
+  length: number; // meters
+  elevationGain: number; // meters
+  averageGradient: number; // percent
+  maxGradient: number; // percent
+  category: ClimbCategory;
+}
+
+// Part of the route to process, in meters from its start (after reversing, if reversed)
+export interface RouteRange {
+  start: number;
+  end: number;
+}
+
+// Which end of a RouteRange is being chosen
+export type RangeEnd = 'start' | 'end';
+
+// Changes applied to the selected track or route before placeholders are generated
+export interface RouteEdit {
+  reversed: boolean;
+  range: RouteRange | null; // null to process the whole route
+}
+
+// A stretch of the route sampled at its own interval, e.g. a climb
+export interface DenseStretch {
+  startDistance: number; // meters from the start of the route
+  endDistance: number;
+  intervalDistance: number; // meters
+}
+
 export interface ProcessingProgress {
   current: number;
   total: number;
-  stage: 'parsing' | 'generating' | 'loading' | 'complete';
+  stage: 'parsing' | 'generating' | 'checking' | 'loading' | 'complete';
   message: string;
+  duplicatesRemoved?: number; // frames dropped for showing the same panorama as a neighbouring frame
+}
+
+export type SimplificationMethod = 'rdp' | 'visvalingam';
+
+export interface RouteSimplification {
+  segments: GPXPoint[][]; // the simplified line
+  distances: number[][]; // distance of each simplified point from the start, measured along the original track
+  originalPointCount: number;
+  pointCount: number;
+  maxDeviation: number; // meters, furthest any original point lies from the simplified line
+}
+
+// 'time' places a frame every N seconds of moving time, 'stops' one at every stop
+export type SamplingMode = 'interval' | 'adaptive' | 'time' | 'stops';
+
+export interface SamplingOptions {
+  mode: SamplingMode;
+  intervalDistance: number; // meters
+  creditBudget: number; // maximum number of frames in adaptive mode
+  timeInterval: number; // seconds of moving time between frames in time mode
+  minStopDuration: number; // seconds, shorter stops are ignored in stops mode
+  headingLookAhead: number; // meters along the route the camera looks towards
+  simplifyTolerance: number; // meters the simplified line may deviate from the track, 0 keeps every point
+  simplifyMethod: SimplificationMethod;
+  denseStretches?: DenseStretch[]; // sampled in addition to the mode above, within the credit budget in adaptive mode
+  waypoints?: GPXWaypoint[]; // each gets a frame at the nearest position on the route
+  reuseOverlaps?: OverlapDirection[]; // overlapping frames in these directions reuse the earlier frame
 }
 
 export interface AppSettings {
   intervalDistance: number; // meters
+  samplingMode: SamplingMode;
+  creditBudget: number; // maximum number of Street View images per route in adaptive mode
+  timeInterval: number; // seconds
+  minStopDuration: number; // seconds
+  headingLookAhead: number; // meters
+  simplifyTolerance: number; // meters, 0 turns simplification off
+  simplifyMethod: SimplificationMethod;
+  distanceFormula: DistanceFormula;
   imageSize: string;
   fov: number;
   pitch: number;
+  searchRadius: number; // meters around each point to look for a panorama
+  panoramaSource: StreetViewSource;
+  imageryProvider: string; // id of the registered imagery provider to load images from
   apiKey: string;
+  mapillaryToken: string;
 }
 
 export interface ExportOptions {
@@ -0,0 +1,32 @@
+import type {
+  Climb,
+  Cue,
+  ElevationStats,
+  GPXData,
+  GPXPoint,
+  ProcessingProgress,
+  RouteSimplification,
+  SamplingOptions,
+  StreetViewImage
+} from '../types';
+
+export type GPXWorkerRequest =
+  | { type: 'parse-gpx'; file: File }
+  // `segments` is the full track; frames are placed along the route simplified as `sampling` asks
+  | { type: 'generate'; segments: GPXPoint[][]; sampling: SamplingOptions };
+
+export interface GPXWorkerResults {
+  'parse-gpx': GPXData;
+  generate: {
+    images: StreetViewImage[];
+    cues: Cue[];
+    elevation: ElevationStats | null;
+    climbs: Climb[];
+    route: RouteSimplification;
+  };
+}
+
+export type GPXWorkerResponse =
+  | { type: 'progress'; progress: ProcessingProgress }
+  | { type: 'result'; result: GPXWorkerResults[GPXWorkerRequest['type']] }
+  | { type: 'error'; message: string };
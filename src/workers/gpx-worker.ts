@@ -0,0 +1,139 @@
+import type { GPXData, GPXPoint, ProcessingProgress, SamplingOptions } from '../types';
+import type { GPXWorkerRequest, GPXWorkerResponse, GPXWorkerResults } from './gpx-worker-protocol';
+import { GPXStreamParser } from '../lib/gpx-stream-parser';
+import { generateStreetViewPlaceholders, isTimeBasedSampling } from '../lib/street-view-api';
+import { attachSensorData } from '../lib/sensor-data';
+import { generateCueSheet } from '../lib/cue-sheet';
+import { calculateElevationStats } from '../lib/elevation';
+import { detectClimbs } from '../lib/climbs';
+import { createDistanceMapping, simplifyRoute } from '../lib/simplify';
+import { detectOverlaps, applyOverlapReuse } from '../lib/overlaps';
+
+// Files are read and parsed 1MB at a time
+const CHUNK_SIZE = 1024 * 1024;
+
+// Minimum time between progress messages, to avoid flooding the main thread
+const PROGRESS_INTERVAL = 100; // ms
+
+self.onmessage = async (event: MessageEvent<GPXWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'parse-gpx':
+        post({ type: 'result', result: await parseGPXStream(request.file) });
+        break;
+      case 'generate':
+        post({ type: 'result', result: await generatePlaceholders(request.segments, request.sampling) });
+        break;
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+/**
+ * Read a GPX file in chunks and feed it to the streaming parser
+ */
+async function parseGPXStream(file: File): Promise<GPXData> {
+  const parser = new GPXStreamParser();
+  const decoder = new TextDecoder('utf-8');
+  const reportProgress = throttleProgress();
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    parser.write(decoder.decode(buffer, { stream: true }));
+
+    const readBytes = Math.min(offset + CHUNK_SIZE, file.size);
+    reportProgress({
+      current: Math.round((readBytes / file.size) * 100),
+      total: 100,
+      stage: 'parsing',
+      message: `Parsing GPX file (${(readBytes / (1024 * 1024)).toFixed(1)} / ${(file.size / (1024 * 1024)).toFixed(1)} MB)...`
+    });
+  }
+
+  parser.write(decoder.decode());
+  return parser.end();
+}
+
+/**
+ * Simplify the route, sample it and build placeholders, then the cue sheet, elevation statistics
+ * and climbs from the full track, reporting progress as it goes. Distances are converted so that
+ * all of them are measured along the full track, and frames repeating an earlier lap are marked.
+ */
+async function generatePlaceholders(
+  segments: GPXPoint[][],
+  sampling: SamplingOptions
+): Promise<GPXWorkerResults['generate']> {
+  const reportProgress = throttleProgress();
+  const pointCount = segments.reduce((sum, segment) => sum + segment.length, 0);
+  reportProgress({
+    current: 0,
+    total: 1,
+    stage: 'parsing',
+    message: `Simplifying route (${pointCount.toLocaleString()} points)...`
+  }, true);
+
+  // Time-based modes need every recorded point to measure moving time and find stops,
+  // so they keep the full track
+  const route = simplifyRoute(
+    segments,
+    isTimeBasedSampling(sampling.mode) ? 0 : sampling.simplifyTolerance,
+    sampling.simplifyMethod
+  );
+  const distances = createDistanceMapping(route);
+
+  const placeholders = await generateStreetViewPlaceholders(
+    route.segments,
+    {
+      ...sampling,
+      denseStretches: sampling.denseStretches?.map(stretch => ({
+        ...stretch,
+        startDistance: distances.toSimplified(stretch.startDistance),
+        endDistance: distances.toSimplified(stretch.endDistance)
+      }))
+    },
+    (current, total) => {
+      reportProgress({
+        current,
+        total,
+        stage: 'generating',
+        message: `Generating placeholders (${current}/${total})...`
+      }, current === total);
+    }
+  );
+
+  const withSensors = attachSensorData(
+    placeholders.map(image => ({ ...image, distance: distances.toOriginal(image.distance) })),
+    segments
+  );
+  // Frames covering road an earlier lap already covered are marked, and reuse its image if asked to
+  const images = applyOverlapReuse(detectOverlaps(withSensors), sampling.reuseOverlaps ?? []);
+  return {
+    images,
+    cues: generateCueSheet(segments, images),
+    elevation: calculateElevationStats(segments),
+    climbs: detectClimbs(segments),
+    route
+  };
+}
+
+/**
+ * Create a progress reporter that posts at most once per PROGRESS_INTERVAL
+ */
+function throttleProgress() {
+  let lastPost = 0;
+
+  return (progress: ProcessingProgress, force: boolean = false) => {
+    const now = Date.now();
+    if (force || now - lastPost >= PROGRESS_INTERVAL) {
+      lastPost = now;
+      post({ type: 'progress', progress });
+    }
+  };
+}
+
+function post(response: GPXWorkerResponse): void {
+  self.postMessage(response);
+}
@@ -0,0 +1,21 @@
+/*
+  # Route statistics on gpx_files
+
+  1. Changes
+    - Add ascent, descent and elevation range columns (meters)
+    - Add moving and elapsed time columns (seconds)
+    - Add the route's bounding box as `bounds` (jsonb with north, south, east and west)
+    - All new columns are nullable; routes without elevation data or timestamps leave them empty
+
+  2. Notes
+    - `total_distance` was previously computed with a flat-earth approximation. Rows saved from now
+      on use great-circle (or ellipsoidal) distances; existing rows are left unchanged.
+*/
+
+ALTER TABLE gpx_files ADD COLUMN IF NOT EXISTS total_ascent numeric;
+ALTER TABLE gpx_files ADD COLUMN IF NOT EXISTS total_descent numeric;
+ALTER TABLE gpx_files ADD COLUMN IF NOT EXISTS min_elevation numeric;
+ALTER TABLE gpx_files ADD COLUMN IF NOT EXISTS max_elevation numeric;
+ALTER TABLE gpx_files ADD COLUMN IF NOT EXISTS moving_time numeric;
+ALTER TABLE gpx_files ADD COLUMN IF NOT EXISTS elapsed_time numeric;
+ALTER TABLE gpx_files ADD COLUMN IF NOT EXISTS bounds jsonb;